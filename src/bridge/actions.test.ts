@@ -0,0 +1,72 @@
+import { CardActionRegistry } from "./actions";
+import { CardActions } from "../lark/types";
+import type { LarkCardActionEvent } from "../lark/types";
+
+function createEvent(value: Record<string, unknown>): LarkCardActionEvent {
+  return {
+    schema: "2.0",
+    header: {
+      event_id: "ev_1",
+      event_type: "card.action.trigger",
+      create_time: "0",
+      tenant_key: "tenant",
+      app_type: "self_build",
+    },
+    event: {
+      operator: { open_id: "ou_1" },
+      token: "token",
+      action: { tag: "button", value },
+      context: { open_message_id: "om_card", open_chat_id: "oc_1" },
+    },
+  };
+}
+
+describe("CardActionRegistry", () => {
+  it("passes the button value and card to the handler of its action", async () => {
+    const handler = jest.fn(async () => ({ toast: "Stopped" }));
+    const registry = new CardActionRegistry().register(
+      CardActions.STOP,
+      handler,
+    );
+
+    const response = await registry.dispatch(
+      createEvent({ action: CardActions.STOP, streamId: "s_1" }),
+    );
+
+    expect(handler).toHaveBeenCalledWith({
+      action: CardActions.STOP,
+      chatId: "oc_1",
+      cardMessageId: "om_card",
+      operatorId: "ou_1",
+      value: { action: CardActions.STOP, streamId: "s_1" },
+    });
+    expect(response).toEqual({
+      toast: { type: "info", content: "Stopped" },
+      card: undefined,
+    });
+  });
+
+  it("warns about actions without a handler", async () => {
+    const registry = new CardActionRegistry();
+
+    await expect(
+      registry.dispatch(createEvent({ action: "unknown" })),
+    ).resolves.toMatchObject({ toast: { type: "warning" } });
+    await expect(registry.dispatch(createEvent({}))).resolves.toMatchObject({
+      toast: { type: "warning" },
+    });
+  });
+
+  it("turns handler failures into an error toast", async () => {
+    const registry = new CardActionRegistry().register(
+      CardActions.REGENERATE,
+      async () => {
+        throw new Error("Failed");
+      },
+    );
+
+    await expect(
+      registry.dispatch(createEvent({ action: CardActions.REGENERATE })),
+    ).resolves.toMatchObject({ toast: { type: "error" } });
+  });
+});
@@ -0,0 +1,117 @@
+import { getLogger, createChildLogger } from "../utils/logger";
+import type {
+  LarkCardActionEvent,
+  LarkCardActionResponse,
+  LarkMessageCard,
+} from "../lark/types";
+
+const logger = getLogger();
+
+/**
+ * Context passed to a card action handler
+ */
+export interface CardActionContext {
+  action: string;
+  chatId: string;
+  cardMessageId: string;
+  operatorId: string;
+  value: Record<string, any>;
+}
+
+/**
+ * Result of a card action handler
+ */
+export interface CardActionResult {
+  card?: LarkMessageCard;
+  toast?: string;
+}
+
+export type CardActionHandler = (
+  context: CardActionContext,
+) => Promise<CardActionResult | void>;
+
+/**
+ * Registry that routes card button callbacks to handlers by action name
+ *
+ * Buttons carry the action name in `value.action`; the rest of `value` is
+ * passed to the handler untouched.
+ */
+export class CardActionRegistry {
+  private handlers: Map<string, CardActionHandler> = new Map();
+
+  /**
+   * Register a handler for an action name
+   */
+  register(action: string, handler: CardActionHandler): this {
+    if (this.handlers.has(action)) {
+      logger.warn("Replacing card action handler", { action });
+    }
+
+    this.handlers.set(action, handler);
+    logger.debug("Registered card action handler", { action });
+
+    return this;
+  }
+
+  /**
+   * Check if a handler is registered for an action name
+   */
+  has(action: string): boolean {
+    return this.handlers.has(action);
+  }
+
+  /**
+   * Dispatch a card action event to its handler
+   */
+  async dispatch(
+    event: LarkCardActionEvent,
+  ): Promise<LarkCardActionResponse | undefined> {
+    const { action, context, operator } = event.event;
+    const value = (action.value || {}) as Record<string, any>;
+    const actionName = value.action;
+    const childLogger = createChildLogger({
+      chatId: context.open_chat_id,
+      action: actionName,
+    });
+
+    const handler = actionName ? this.handlers.get(actionName) : undefined;
+    if (!handler) {
+      childLogger.warn("No handler for card action", { value });
+      return {
+        toast: { type: "warning", content: "This button is not supported" },
+      };
+    }
+
+    try {
+      childLogger.info("Handling card action", {
+        operatorId: operator.open_id,
+      });
+
+      const result = await handler({
+        action: actionName,
+        chatId: context.open_chat_id,
+        cardMessageId: context.open_message_id,
+        operatorId: operator.open_id,
+        value,
+      });
+
+      if (!result) {
+        return undefined;
+      }
+
+      return {
+        toast: result.toast
+          ? { type: "info", content: result.toast }
+          : undefined,
+        card: result.card ? { type: "raw", data: result.card } : undefined,
+      };
+    } catch (error) {
+      childLogger.error("Card action handler failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        toast: { type: "error", content: "Action failed, please try again" },
+      };
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { CommandRegistry } from "./commands";
+import type { CommandContext, CommandDefinition } from "./commands";
+
+const context = (senderId: string, chatType = "group"): CommandContext => ({
+  chatId: "oc_1",
+  chatType,
+  senderId,
+  messageId: "om_1",
+});
+
+const commands: CommandDefinition[] = [
+  {
+    name: "ping",
+    description: "Answer pong",
+    handler: async () => "pong",
+  },
+  {
+    name: "stats",
+    description: "Show statistics",
+    permission: "admin",
+    handler: async () => "stats",
+  },
+  {
+    name: "model",
+    description: "Set the model",
+    permission: "p2p",
+    handler: async () => "model",
+  },
+];
+
+function createRegistry(
+  options: ConstructorParameters<typeof CommandRegistry>[0],
+): CommandRegistry {
+  const registry = new CommandRegistry(options);
+  commands.forEach((command) => registry.register(command));
+  return registry;
+}
+
+describe("CommandRegistry permissions", () => {
+  it("denies admin commands to everyone when no admins are configured", async () => {
+    const registry = createRegistry({});
+
+    await expect(registry.execute("/stats", context("ou_1"))).resolves.toMatch(
+      /permission/,
+    );
+    expect(registry.listCommands("ou_1", "group").map((c) => c.name)).toEqual([
+      "ping",
+    ]);
+  });
+
+  it("allows admin commands to configured admins only", async () => {
+    const registry = createRegistry({ admins: ["ou_admin"] });
+
+    await expect(registry.execute("/stats", context("ou_admin"))).resolves.toBe(
+      "stats",
+    );
+    await expect(registry.execute("/stats", context("ou_1"))).resolves.toMatch(
+      /permission/,
+    );
+  });
+
+  it("allows p2p commands to everyone in direct chats only", async () => {
+    const registry = createRegistry({ admins: ["ou_admin"] });
+
+    await expect(registry.execute("/model", context("ou_1"))).resolves.toMatch(
+      /permission/,
+    );
+    await expect(
+      registry.execute("/model", context("ou_1", "p2p")),
+    ).resolves.toBe("model");
+    await expect(registry.execute("/model", context("ou_admin"))).resolves.toBe(
+      "model",
+    );
+    expect(registry.listCommands("ou_1", "p2p").map((c) => c.name)).toEqual([
+      "ping",
+      "model",
+    ]);
+  });
+
+  it("applies permission overrides", async () => {
+    const registry = createRegistry({
+      permissions: { ping: "admin", stats: "everyone" },
+    });
+
+    await expect(registry.execute("/ping", context("ou_1"))).resolves.toMatch(
+      /permission/,
+    );
+    await expect(registry.execute("/stats", context("ou_1"))).resolves.toBe(
+      "stats",
+    );
+  });
+
+  it("knows configured admins", () => {
+    expect(createRegistry({}).isAdmin("ou_admin")).toBe(false);
+    expect(createRegistry({ admins: ["ou_admin"] }).isAdmin("ou_admin")).toBe(
+      true,
+    );
+  });
+});
@@ -0,0 +1,245 @@
+import { getLogger, createChildLogger } from "../utils/logger";
+import { ValidationError } from "../utils/errors";
+
+const logger = getLogger();
+
+/**
+ * Argument types understood by the parser
+ *
+ * `text` takes the rest of the line and must be the last argument.
+ */
+export type CommandArgType = "string" | "number" | "text";
+
+/**
+ * Argument specification of a command
+ */
+export interface CommandArgSpec {
+  name: string;
+  type: CommandArgType;
+  required?: boolean;
+  min?: number; // Number arguments only
+  max?: number; // Number arguments only
+}
+
+/**
+ * Who may run a command: `p2p` lets everyone run it in direct chats and
+ * only admins in group chats
+ */
+export type CommandPermission = "everyone" | "p2p" | "admin";
+
+/**
+ * Context passed to a command handler
+ */
+export interface CommandContext {
+  chatId: string;
+  chatType: string;
+  senderId: string;
+  messageId: string;
+  inThread?: boolean; // The command was sent inside a thread
+}
+
+export type CommandArgs = Record<string, string | number | undefined>;
+
+/**
+ * Chat command definition
+ */
+export interface CommandDefinition {
+  name: string;
+  description: string;
+  args?: CommandArgSpec[];
+  permission?: CommandPermission;
+  handler: (context: CommandContext, args: CommandArgs) => Promise<string>;
+}
+
+/**
+ * Command registry options
+ */
+export interface CommandRegistryOptions {
+  admins?: string[]; // Open IDs allowed to run admin commands
+  permissions?: Record<string, CommandPermission>; // Overrides per command
+}
+
+/**
+ * Registry that intercepts `/command` messages before they reach the model
+ */
+export class CommandRegistry {
+  private commands: Map<string, CommandDefinition> = new Map();
+  private admins: Set<string>;
+  private permissions: Record<string, CommandPermission>;
+
+  constructor(options: CommandRegistryOptions = {}) {
+    this.admins = new Set(options.admins || []);
+    this.permissions = options.permissions || {};
+  }
+
+  /**
+   * Register a command
+   */
+  register(command: CommandDefinition): this {
+    if (this.commands.has(command.name)) {
+      logger.warn("Replacing chat command", { command: command.name });
+    }
+
+    this.commands.set(command.name, command);
+    logger.debug("Registered chat command", { command: command.name });
+
+    return this;
+  }
+
+  /**
+   * Check if a message is a command
+   */
+  isCommand(text: string): boolean {
+    return /^\/[a-zA-Z]/.test(text.trim());
+  }
+
+  /**
+   * List the commands a sender may run in a chat
+   */
+  listCommands(senderId: string, chatType: string): CommandDefinition[] {
+    return Array.from(this.commands.values()).filter((command) =>
+      this.isAllowed(command, senderId, chatType),
+    );
+  }
+
+  /**
+   * Format the usage line of a command
+   */
+  formatUsage(command: CommandDefinition): string {
+    const args = (command.args || []).map((arg) =>
+      arg.required ? `<${arg.name}>` : `[${arg.name}]`,
+    );
+    return [`/${command.name}`, ...args].join(" ");
+  }
+
+  /**
+   * Run a command message and return the reply text
+   */
+  async execute(text: string, context: CommandContext): Promise<string> {
+    const [, name, rest = ""] =
+      text.trim().match(/^\/(\S+)\s*([\s\S]*)$/) || [];
+    const commandName = (name || "").toLowerCase();
+    const childLogger = createChildLogger({
+      chatId: context.chatId,
+      command: commandName,
+    });
+
+    const command = this.commands.get(commandName);
+    if (!command) {
+      return `❓ Unknown command /${commandName}. Send /help to list commands.`;
+    }
+
+    if (!this.isAllowed(command, context.senderId, context.chatType)) {
+      childLogger.warn("Command denied", { senderId: context.senderId });
+      return `🚫 You don't have permission to use /${command.name}.`;
+    }
+
+    try {
+      const args = this.parseArgs(command, rest);
+
+      childLogger.info("Executing chat command", {
+        senderId: context.senderId,
+      });
+
+      return await command.handler(context, args);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return `❌ ${error.message}\nUsage: ${this.formatUsage(command)}`;
+      }
+
+      childLogger.error("Chat command failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Check if a sender is a configured admin
+   */
+  isAdmin(senderId: string): boolean {
+    return this.admins.has(senderId);
+  }
+
+  /**
+   * Check the permission of a command for a sender in a chat
+   *
+   * Without configured admins, admin commands are denied to everyone.
+   */
+  private isAllowed(
+    command: CommandDefinition,
+    senderId: string,
+    chatType: string,
+  ): boolean {
+    const permission =
+      this.permissions[command.name] || command.permission || "everyone";
+
+    return (
+      permission === "everyone" ||
+      (permission === "p2p" && chatType === "p2p") ||
+      this.isAdmin(senderId)
+    );
+  }
+
+  /**
+   * Parse and validate the arguments of a command
+   */
+  private parseArgs(command: CommandDefinition, input: string): CommandArgs {
+    const args: CommandArgs = {};
+    let remaining = input.trim();
+
+    for (const spec of command.args || []) {
+      let raw: string | undefined;
+
+      if (spec.type === "text") {
+        raw = remaining || undefined;
+        remaining = "";
+      } else {
+        const match = remaining.match(/^(\S+)\s*([\s\S]*)$/);
+        raw = match?.[1];
+        remaining = match?.[2] || "";
+      }
+
+      if (raw === undefined) {
+        if (spec.required) {
+          throw new ValidationError(
+            `Missing argument <${spec.name}>`,
+            spec.name,
+          );
+        }
+        continue;
+      }
+
+      args[spec.name] = spec.type === "number" ? parseNumber(spec, raw) : raw;
+    }
+
+    if (remaining) {
+      throw new ValidationError(`Unexpected argument "${remaining}"`);
+    }
+
+    return args;
+  }
+}
+
+/**
+ * Parse a number argument and check its bounds
+ */
+function parseNumber(spec: CommandArgSpec, raw: string): number {
+  const value = Number(raw);
+
+  if (!Number.isFinite(value)) {
+    throw new ValidationError(`<${spec.name}> must be a number`, spec.name);
+  }
+
+  if (
+    (spec.min !== undefined && value < spec.min) ||
+    (spec.max !== undefined && value > spec.max)
+  ) {
+    throw new ValidationError(
+      `<${spec.name}> must be between ${spec.min ?? "-∞"} and ${spec.max ?? "∞"}`,
+      spec.name,
+    );
+  }
+
+  return value;
+}
@@ -0,0 +1,52 @@
+import { ConversationContextManager } from "./context";
+import type { MoltbotMessage } from "../moltbot/types";
+
+// About 14 tokens each: 40 characters plus the message overhead
+const turn: MoltbotMessage[] = [
+  { role: "user", content: "q".repeat(40) },
+  { role: "assistant", content: "a".repeat(40) },
+  { role: "user", content: "r".repeat(40) },
+];
+
+describe("ConversationContextManager", () => {
+  it("trims the oldest turns to the token budget", () => {
+    const manager = new ConversationContextManager({ tokenBudget: 30 });
+
+    for (const message of turn) {
+      manager.addMessage("oc_1", message);
+    }
+
+    expect(manager.getContext("oc_1")).toEqual([turn[2]]);
+  });
+
+  it("leaves out turns that don't fit next to reserved tokens", () => {
+    const manager = new ConversationContextManager({ tokenBudget: 50 });
+
+    for (const message of turn) {
+      manager.addMessage("oc_1", message);
+    }
+
+    expect(manager.getContext("oc_1", 20)).toEqual([turn[2]]);
+    expect(manager.getContext("oc_1")).toEqual(turn);
+  });
+
+  it("trims to a smaller budget without losing history", () => {
+    const manager = new ConversationContextManager({ tokenBudget: 50 });
+
+    for (const message of turn) {
+      manager.addMessage("oc_1", message);
+    }
+
+    expect(manager.getContext("oc_1", 0, 30)).toEqual([turn[2]]);
+    expect(manager.getContext("oc_1", 0, 100)).toEqual(turn);
+  });
+
+  it("returns a copy of the history", () => {
+    const manager = new ConversationContextManager();
+    manager.addMessage("oc_1", turn[0]);
+
+    manager.getContext("oc_1").pop();
+
+    expect(manager.getContext("oc_1")).toEqual([turn[0]]);
+  });
+});
@@ -1,33 +1,64 @@
 import { getLogger } from "../utils/logger";
+import { MemoryStore } from "../storage";
+import { estimateMessageTokens } from "../utils/tokens";
+import type { ConversationSummarizer } from "./summarizer";
+import type { KeyValueStore } from "../storage";
 import type { MoltbotMessage } from "../moltbot/types";
 
 const logger = getLogger();
 
+// Prompt budget when none is given: an 8k context minus 1k reserved output
+const DEFAULT_TOKEN_BUDGET = 7168;
+
 /**
  * Conversation context for a single chat
  */
-interface ConversationContext {
+export interface ConversationContext {
   chatId: string;
   messages: MoltbotMessage[];
+  summary?: string; // Running summary of turns trimmed from messages
+  createdAt: number;
   lastActivity: number;
   messageCount: number;
 }
 
+/**
+ * Conversation context manager options
+ */
+export interface ConversationContextOptions {
+  store?: KeyValueStore<ConversationContext>;
+  tokenBudget?: number; // Estimated prompt tokens the history may use
+  maxAgeHours?: number;
+  summarizer?: ConversationSummarizer; // Condenses trimmed turns when set
+}
+
 /**
  * Conversation context manager for maintaining chat history
+ *
+ * Contexts live in a pluggable store; every change is written back with
+ * `store.set` so persistent backends survive restarts.
  */
 export class ConversationContextManager {
-  private conversations: Map<string, ConversationContext> = new Map();
-  private maxHistoryLength: number = 10;
+  private conversations: KeyValueStore<ConversationContext>;
+  private summarizer?: ConversationSummarizer;
+  // Summary updates in flight, chained per chat so they apply in order
+  private pendingSummaries: Map<string, Promise<void>> = new Map();
+  private tokenBudget: number = DEFAULT_TOKEN_BUDGET;
   private maxAge: number = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
 
-  constructor(maxHistoryLength: number = 10, maxAgeHours: number = 24) {
-    this.maxHistoryLength = maxHistoryLength;
+  constructor(options: ConversationContextOptions = {}) {
+    const { tokenBudget = DEFAULT_TOKEN_BUDGET, maxAgeHours = 24 } = options;
+
+    this.conversations = options.store || new MemoryStore();
+    this.summarizer = options.summarizer;
+    this.tokenBudget = tokenBudget;
     this.maxAge = maxAgeHours * 60 * 60 * 1000;
 
     logger.info("Conversation context manager initialized", {
-      maxHistoryLength,
+      tokenBudget,
       maxAgeHours,
+      summarization: !!this.summarizer,
+      storedConversations: this.conversations.size(),
     });
   }
 
@@ -41,10 +72,10 @@ export class ConversationContextManager {
       context = {
         chatId,
         messages: [],
+        createdAt: Date.now(),
         lastActivity: Date.now(),
         messageCount: 0,
       };
-      this.conversations.set(chatId, context);
       logger.debug("Created new conversation context", { chatId });
     }
 
@@ -53,19 +84,30 @@ export class ConversationContextManager {
     context.lastActivity = Date.now();
     context.messageCount++;
 
-    // Trim history if too long
-    if (context.messages.length > this.maxHistoryLength) {
-      const removed = context.messages.splice(
-        0,
-        context.messages.length - this.maxHistoryLength,
-      );
+    // Trim history if it no longer fits the token budget, which the
+    // summary shares with the messages
+    const summaryTokens = context.summary
+      ? estimateMessageTokens(toSummaryMessage(context.summary))
+      : 0;
+    const removed = trimToTokenBudget(
+      context.messages,
+      this.tokenBudget - summaryTokens,
+    );
+    if (removed.length > 0) {
       logger.debug("Trimmed conversation history", {
         chatId,
         removedCount: removed.length,
         remainingCount: context.messages.length,
+        tokenBudget: this.tokenBudget,
       });
     }
 
+    this.conversations.set(chatId, context);
+
+    if (removed.length > 0 && this.summarizer) {
+      this.scheduleSummaryUpdate(chatId, context.createdAt, removed);
+    }
+
     logger.debug("Added message to conversation context", {
       chatId,
       role: message.role,
@@ -76,8 +118,17 @@ export class ConversationContextManager {
 
   /**
    * Get conversation context for a chat
+   *
+   * `reservedTokens` are taken from the budget by the rest of the prompt,
+   * such as the system prompt, and `tokenBudget` replaces the configured
+   * budget for models with a smaller window; the oldest turns that no longer
+   * fit are left out of the result but stay in the history.
    */
-  getContext(chatId: string): MoltbotMessage[] {
+  getContext(
+    chatId: string,
+    reservedTokens: number = 0,
+    tokenBudget: number = this.tokenBudget,
+  ): MoltbotMessage[] {
     const context = this.conversations.get(chatId);
 
     if (!context) {
@@ -97,7 +148,43 @@ export class ConversationContextManager {
       return [];
     }
 
-    return context.messages;
+    const messages = context.summary
+      ? [toSummaryMessage(context.summary), ...context.messages]
+      : [...context.messages];
+
+    const budget = Math.min(tokenBudget, this.tokenBudget) - reservedTokens;
+    if (budget < this.tokenBudget) {
+      trimToTokenBudget(messages, budget);
+    }
+
+    return messages;
+  }
+
+  /**
+   * Remove the latest message of a chat if it has the given role
+   */
+  removeLastMessage(
+    chatId: string,
+    role: MoltbotMessage["role"],
+  ): MoltbotMessage | undefined {
+    const context = this.conversations.get(chatId);
+    const lastMessage = context?.messages[context.messages.length - 1];
+
+    if (!context || !lastMessage || lastMessage.role !== role) {
+      return undefined;
+    }
+
+    context.messages.pop();
+    context.lastActivity = Date.now();
+    this.conversations.set(chatId, context);
+
+    logger.debug("Removed last message from conversation context", {
+      chatId,
+      role,
+      historyLength: context.messages.length,
+    });
+
+    return lastMessage;
   }
 
   /**
@@ -132,7 +219,9 @@ export class ConversationContextManager {
       | { chatId: string; lastActivity: number }
       | undefined;
 
-    for (const [chatId, context] of this.conversations.entries()) {
+    const conversations = this.conversations.entries();
+
+    for (const [chatId, context] of conversations) {
       totalMessages += context.messageCount;
 
       if (
@@ -151,7 +240,7 @@ export class ConversationContextManager {
     }
 
     return {
-      totalConversations: this.conversations.size,
+      totalConversations: conversations.length,
       totalMessages,
       oldestConversation,
       newestConversation,
@@ -189,7 +278,7 @@ export class ConversationContextManager {
    * Get all active conversation IDs
    */
   getActiveConversations(): string[] {
-    return Array.from(this.conversations.keys());
+    return this.conversations.keys();
   }
 
   /**
@@ -198,4 +287,122 @@ export class ConversationContextManager {
   hasConversation(chatId: string): boolean {
     return this.conversations.has(chatId);
   }
+
+  /**
+   * Fold trimmed messages into the chat's running summary in the background
+   */
+  private scheduleSummaryUpdate(
+    chatId: string,
+    createdAt: number,
+    removed: MoltbotMessage[],
+  ): void {
+    const previous = this.pendingSummaries.get(chatId) || Promise.resolve();
+    const update = previous
+      .then(() => this.updateSummary(chatId, createdAt, removed))
+      .finally(() => {
+        if (this.pendingSummaries.get(chatId) === update) {
+          this.pendingSummaries.delete(chatId);
+        }
+      });
+
+    this.pendingSummaries.set(chatId, update);
+  }
+
+  /**
+   * Summarize trimmed messages and store the new summary
+   */
+  private async updateSummary(
+    chatId: string,
+    createdAt: number,
+    removed: MoltbotMessage[],
+  ): Promise<void> {
+    const context = this.conversations.get(chatId);
+
+    // The conversation was cleared or restarted in the meantime
+    if (!context || context.createdAt !== createdAt || !this.summarizer) {
+      return;
+    }
+
+    try {
+      const summary = await this.summarizer.summarize(
+        chatId,
+        context.summary,
+        removed,
+      );
+
+      const latest = this.conversations.get(chatId);
+      if (!latest || latest.createdAt !== createdAt) {
+        return;
+      }
+
+      latest.summary = summary;
+      this.conversations.set(chatId, latest);
+
+      logger.debug("Updated conversation summary", {
+        chatId,
+        summarizedCount: removed.length,
+        summaryLength: summary.length,
+      });
+    } catch (error) {
+      logger.warn("Failed to summarize trimmed conversation turns", {
+        chatId,
+        droppedCount: removed.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Release the underlying store
+   */
+  close(): void {
+    this.conversations.close();
+  }
+}
+
+/**
+ * Wrap a running summary as the system message heading the context
+ */
+function toSummaryMessage(summary: string): MoltbotMessage {
+  return {
+    role: "system",
+    content: `Summary of the earlier conversation:\n${summary}`,
+  };
+}
+
+/**
+ * Drop the oldest turns until the messages fit the token budget
+ *
+ * System messages and the newest message are always kept. A turn is the
+ * oldest remaining message plus the assistant replies that follow it, so the
+ * history never starts with an orphaned reply. Returns the removed messages.
+ */
+function trimToTokenBudget(
+  messages: MoltbotMessage[],
+  tokenBudget: number,
+): MoltbotMessage[] {
+  const removed: MoltbotMessage[] = [];
+  let totalTokens = messages.reduce(
+    (sum, message) => sum + estimateMessageTokens(message),
+    0,
+  );
+
+  while (totalTokens > tokenBudget) {
+    const start = messages.findIndex((message) => message.role !== "system");
+    if (start === -1 || start === messages.length - 1) {
+      break;
+    }
+
+    let end = start + 1;
+    while (end < messages.length - 1 && messages[end].role === "assistant") {
+      end++;
+    }
+
+    for (const message of messages.splice(start, end - start)) {
+      totalTokens -= estimateMessageTokens(message);
+      removed.push(message);
+    }
+  }
+
+  return removed;
 }
@@ -0,0 +1,64 @@
+import { MessageCoalescer } from "./debounce";
+
+describe("MessageCoalescer", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("gives the whole batch to the caller that added its last item", async () => {
+    const coalescer = new MessageCoalescer<string>(100, 1000);
+
+    const first = coalescer.add("oc_1", "a");
+    jest.advanceTimersByTime(50);
+    const second = coalescer.add("oc_1", "b");
+
+    await expect(first).resolves.toEqual([]);
+    jest.advanceTimersByTime(100);
+    await expect(second).resolves.toEqual(["a", "b"]);
+  });
+
+  it("releases a batch no later than the maximum wait", async () => {
+    const coalescer = new MessageCoalescer<number>(100, 250);
+    const batches: Promise<number[]>[] = [];
+
+    for (let i = 0; i < 4; i++) {
+      batches.push(coalescer.add("oc_1", i));
+      jest.advanceTimersByTime(90);
+    }
+    jest.advanceTimersByTime(100);
+
+    await expect(batches[2]).resolves.toEqual([0, 1, 2]);
+    await expect(batches[3]).resolves.toEqual([3]);
+  });
+
+  it("keeps keys apart", async () => {
+    const coalescer = new MessageCoalescer<string>(100, 1000);
+
+    const first = coalescer.add("oc_1", "a");
+    const second = coalescer.add("oc_2", "b");
+    jest.advanceTimersByTime(100);
+
+    await expect(first).resolves.toEqual(["a"]);
+    await expect(second).resolves.toEqual(["b"]);
+  });
+
+  it("releases the pending batch before an item sent alone", async () => {
+    const coalescer = new MessageCoalescer<string>(100, 1000);
+
+    const pending = coalescer.add("oc_1", "a");
+    const alone = coalescer.add("oc_1", "/help", true);
+
+    await expect(pending).resolves.toEqual(["a"]);
+    await expect(alone).resolves.toEqual(["/help"]);
+  });
+
+  it("passes items straight through without a window", async () => {
+    const coalescer = new MessageCoalescer<string>(0, 0);
+
+    await expect(coalescer.add("oc_1", "a")).resolves.toEqual(["a"]);
+  });
+});
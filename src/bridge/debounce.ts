@@ -0,0 +1,100 @@
+import { getLogger } from "../utils/logger";
+
+const logger = getLogger();
+
+/**
+ * Pending batch of one key
+ */
+interface PendingBatch<T> {
+  items: T[];
+  resolve: (batch: T[]) => void; // Resolver of the latest caller
+  timer?: NodeJS.Timeout;
+  firstAt: number;
+}
+
+/**
+ * Collects items arriving in quick succession into one batch per key
+ *
+ * Every `add` call resolves once: the call that added the last item of a
+ * batch gets the whole batch, earlier calls get an empty array as soon as a
+ * later item arrives. The batch is released `windowMs` after its last item,
+ * but no later than `maxWaitMs` after its first one.
+ */
+export class MessageCoalescer<T> {
+  private pending: Map<string, PendingBatch<T>> = new Map();
+
+  constructor(
+    private windowMs: number,
+    private maxWaitMs: number,
+  ) {}
+
+  /**
+   * Add an item to the batch of a key
+   *
+   * With `alone`, the pending batch is released first and the item is
+   * returned as a batch of its own.
+   */
+  add(key: string, item: T, alone: boolean = false): Promise<T[]> {
+    if (this.windowMs <= 0) {
+      return Promise.resolve([item]);
+    }
+
+    if (alone) {
+      this.flush(key);
+      return Promise.resolve([item]);
+    }
+
+    return new Promise((resolve) => {
+      const now = Date.now();
+      let batch = this.pending.get(key);
+
+      if (batch) {
+        // The earlier caller's item is now part of this caller's batch
+        clearTimeout(batch.timer);
+        batch.resolve([]);
+        batch.items.push(item);
+        batch.resolve = resolve;
+      } else {
+        batch = { items: [item], resolve, firstAt: now };
+        this.pending.set(key, batch);
+      }
+
+      const delay = Math.max(
+        Math.min(this.windowMs, batch.firstAt + this.maxWaitMs - now),
+        0,
+      );
+      batch.timer = setTimeout(() => this.flush(key), delay);
+    });
+  }
+
+  /**
+   * Release the pending batch of a key now
+   */
+  flush(key: string): void {
+    const batch = this.pending.get(key);
+    if (!batch) {
+      return;
+    }
+
+    clearTimeout(batch.timer);
+    this.pending.delete(key);
+
+    if (batch.items.length > 1) {
+      logger.debug("Coalesced messages", {
+        key,
+        count: batch.items.length,
+      });
+    }
+
+    batch.resolve(batch.items);
+  }
+
+  /**
+   * Release all pending batches
+   */
+  flushAll(): void {
+    for (const key of Array.from(this.pending.keys())) {
+      this.flush(key);
+    }
+  }
+}
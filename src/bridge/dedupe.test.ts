@@ -0,0 +1,49 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { JsonFileStore } from "../storage";
+import { EventDeduplicator } from "./dedupe";
+
+describe("EventDeduplicator", () => {
+  it("drops an event seen by its event ID or message ID", () => {
+    const deduplicator = new EventDeduplicator();
+
+    expect(deduplicator.isDuplicate(["ev_1", "om_1"])).toBe(false);
+    expect(deduplicator.isDuplicate(["ev_1", "om_1"])).toBe(true);
+    expect(deduplicator.isDuplicate(["ev_2", "om_1"])).toBe(true);
+    expect(deduplicator.isDuplicate(["ev_3", undefined])).toBe(false);
+  });
+
+  it("accepts an event again once its TTL has passed", () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, "now").mockReturnValue(now);
+    const deduplicator = new EventDeduplicator({ ttlHours: 1 });
+
+    deduplicator.isDuplicate(["ev_1"]);
+    clock.mockReturnValue(now + 61 * 60 * 1000);
+
+    expect(deduplicator.isDuplicate(["ev_1"])).toBe(false);
+    clock.mockRestore();
+  });
+
+  it("remembers events across restarts with a persistent store", () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "dedupe-"));
+    const filePath = path.join(directory, "seen_events.json");
+
+    try {
+      const before = new EventDeduplicator({
+        store: new JsonFileStore<number>(filePath),
+      });
+      expect(before.isDuplicate(["ev_1", "om_1"])).toBe(false);
+      before.close();
+
+      const after = new EventDeduplicator({
+        store: new JsonFileStore<number>(filePath),
+      });
+      expect(after.isDuplicate(["ev_2", "om_1"])).toBe(true);
+      after.close();
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
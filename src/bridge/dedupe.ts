@@ -0,0 +1,79 @@
+import { getLogger } from "../utils/logger";
+import { MemoryStore } from "../storage";
+import type { KeyValueStore } from "../storage";
+
+const logger = getLogger();
+
+/**
+ * Event deduplicator options
+ */
+export interface EventDeduplicatorOptions {
+  store?: KeyValueStore<number>; // Expiry time by key, in memory by default
+  ttlHours?: number; // How long a seen event is remembered
+}
+
+/**
+ * TTL-bounded seen-set that drops redelivered Lark events
+ *
+ * Lark redelivers events when the handler is slow to acknowledge them, with
+ * a new delivery of the same event keeping its event ID and message ID.
+ */
+export class EventDeduplicator {
+  private seen: KeyValueStore<number>;
+  private ttlMs: number;
+
+  constructor(options: EventDeduplicatorOptions = {}) {
+    this.seen = options.store || new MemoryStore();
+    this.ttlMs = (options.ttlHours || 12) * 60 * 60 * 1000;
+  }
+
+  /**
+   * Check if any key was seen before, then remember all keys
+   *
+   * Empty keys are ignored.
+   */
+  isDuplicate(keys: Array<string | undefined>): boolean {
+    const now = Date.now();
+    const validKeys = keys.filter((key): key is string => !!key);
+
+    const duplicateKey = validKeys.find((key) => {
+      const expiresAt = this.seen.get(key);
+      return expiresAt !== undefined && expiresAt > now;
+    });
+
+    if (duplicateKey) {
+      logger.debug("Duplicate event key", { key: duplicateKey });
+      return true;
+    }
+
+    for (const key of validKeys) {
+      this.seen.set(key, now + this.ttlMs);
+    }
+
+    return false;
+  }
+
+  /**
+   * Forget expired keys
+   */
+  cleanup(): number {
+    const now = Date.now();
+    let removed = 0;
+
+    for (const [key, expiresAt] of this.seen.entries()) {
+      if (expiresAt <= now) {
+        this.seen.delete(key);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Release the underlying store
+   */
+  close(): void {
+    this.seen.close();
+  }
+}
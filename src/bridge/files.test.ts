@@ -0,0 +1,77 @@
+import { Readable } from "stream";
+import { AttachmentError } from "../utils/errors";
+import { LarkClient } from "../lark/client";
+import { FileExtractor } from "./files";
+
+/**
+ * Create an extractor whose downloads stream the given chunks
+ */
+function createExtractor(
+  chunks: string[],
+  headers: Record<string, string> = {},
+  maxFileBytes = 10,
+) {
+  const larkClient = new LarkClient();
+  const get = jest.fn(async () => ({
+    headers,
+    getReadableStream: () => Readable.from(chunks.map((c) => Buffer.from(c))),
+  }));
+  (
+    larkClient as unknown as {
+      client: { im: { messageResource: { get: typeof get } } };
+    }
+  ).client = { im: { messageResource: { get } } };
+
+  return {
+    extractor: new FileExtractor(larkClient, { maxFileBytes, maxTokens: 100 }),
+    get,
+  };
+}
+
+describe("FileExtractor", () => {
+  beforeAll(() => {
+    process.env.LARK_APP_ID = "cli_test";
+    process.env.LARK_APP_SECRET = "secret";
+  });
+
+  afterAll(() => {
+    delete process.env.LARK_APP_ID;
+    delete process.env.LARK_APP_SECRET;
+  });
+
+  it("heads the extracted text with the file name", async () => {
+    const { extractor } = createExtractor(["a,b\n", "1,2\n"]);
+
+    await expect(
+      extractor.extract("om_1", { key: "file_1", name: "data.csv" }),
+    ).resolves.toBe("📎 File: data.csv\n```\na,b\n1,2\n```");
+  });
+
+  it("stops downloading once a file exceeds the size cap", async () => {
+    const { extractor } = createExtractor(["12345", "67890", "1"]);
+
+    const error = await extractor
+      .extract("om_1", { key: "file_1", name: "notes.txt" })
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(AttachmentError);
+    expect((error as Error).message).toMatch(/too large/);
+  });
+
+  it("rejects files whose announced size exceeds the cap", async () => {
+    const { extractor } = createExtractor(["1"], { "content-length": "11" });
+
+    await expect(
+      extractor.extract("om_1", { key: "file_1", name: "notes.txt" }),
+    ).rejects.toThrow(/too large/);
+  });
+
+  it("rejects unsupported types without downloading them", async () => {
+    const { extractor, get } = createExtractor(["1"]);
+
+    await expect(
+      extractor.extract("om_1", { key: "file_1", name: "slides.pptx" }),
+    ).rejects.toBeInstanceOf(AttachmentError);
+    expect(get).not.toHaveBeenCalled();
+  });
+});
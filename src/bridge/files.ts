@@ -0,0 +1,257 @@
+import * as path from "path";
+import pdfParse from "pdf-parse";
+import { getLogger } from "../utils/logger";
+import { AttachmentError } from "../utils/errors";
+import { estimateTokens } from "../utils/tokens";
+import { LarkClient } from "../lark/client";
+
+const logger = getLogger();
+
+// Extensions read as UTF-8 text
+const TEXT_EXTENSIONS = new Set([
+  // Plain text and documents
+  "txt",
+  "text",
+  "log",
+  "md",
+  "markdown",
+  "rst",
+  // Data
+  "csv",
+  "tsv",
+  "json",
+  "jsonl",
+  "ndjson",
+  "yaml",
+  "yml",
+  "toml",
+  "ini",
+  "cfg",
+  "conf",
+  "env",
+  "xml",
+  "sql",
+  // Source code
+  "html",
+  "css",
+  "scss",
+  "js",
+  "jsx",
+  "mjs",
+  "cjs",
+  "ts",
+  "tsx",
+  "vue",
+  "py",
+  "rb",
+  "go",
+  "rs",
+  "java",
+  "kt",
+  "scala",
+  "swift",
+  "c",
+  "h",
+  "cpp",
+  "hpp",
+  "cc",
+  "cs",
+  "php",
+  "lua",
+  "r",
+  "sh",
+  "bash",
+  "zsh",
+  "ps1",
+  "dockerfile",
+  "gradle",
+  "proto",
+  "graphql",
+  "diff",
+  "patch",
+]);
+
+// Extensions rejected without downloading
+const BINARY_EXTENSIONS = new Set([
+  "doc",
+  "docx",
+  "xls",
+  "xlsx",
+  "ppt",
+  "pptx",
+  "zip",
+  "rar",
+  "7z",
+  "gz",
+  "tar",
+  "exe",
+  "dmg",
+  "apk",
+  "png",
+  "jpg",
+  "jpeg",
+  "gif",
+  "mp3",
+  "mp4",
+  "mov",
+  "wav",
+]);
+
+// Bytes inspected when guessing whether an unknown file is text
+const TEXT_SNIFF_BYTES = 8192;
+
+/**
+ * File extractor options
+ */
+export interface FileExtractorOptions {
+  maxFileBytes?: number; // Largest file that is downloaded
+  maxTokens?: number; // Budget for the extracted text of one file
+}
+
+/**
+ * File attached to a message
+ */
+export interface FileAttachment {
+  key: string;
+  name?: string;
+}
+
+/**
+ * Downloads files attached to Lark messages and extracts their text
+ *
+ * Supports plain text, Markdown, CSV, JSON, source code and PDF. Other types
+ * fail with an AttachmentError that is shown to the user.
+ */
+export class FileExtractor {
+  private maxFileBytes: number;
+  private maxTokens: number;
+
+  constructor(
+    private larkClient: LarkClient,
+    options: FileExtractorOptions = {},
+  ) {
+    this.maxFileBytes = options.maxFileBytes || 20 * 1024 * 1024;
+    this.maxTokens = options.maxTokens || 4000;
+  }
+
+  /**
+   * Get the text of a file as a prompt block headed by the file name
+   */
+  async extract(messageId: string, file: FileAttachment): Promise<string> {
+    const fileName = file.name || "attachment";
+    const extension = getExtension(fileName);
+
+    if (BINARY_EXTENSIONS.has(extension)) {
+      throw unsupportedFile(fileName);
+    }
+
+    const resource = await this.larkClient.downloadMessageResource(
+      messageId,
+      file.key,
+      "file",
+      this.maxFileBytes,
+    );
+
+    const text =
+      extension === "pdf"
+        ? await extractPdfText(fileName, resource.data)
+        : extractPlainText(fileName, extension, resource.data);
+
+    const truncated = truncateToTokens(text.trim(), this.maxTokens);
+
+    logger.debug("Extracted file text", {
+      fileName,
+      size: resource.data.length,
+      textLength: text.length,
+      truncated: truncated !== text.trim(),
+    });
+
+    return `📎 File: ${fileName}\n\`\`\`\n${truncated}\n\`\`\``;
+  }
+}
+
+/**
+ * Get the lower-case extension of a file name
+ *
+ * Dotless names such as "Dockerfile" are returned whole.
+ */
+function getExtension(fileName: string): string {
+  const extension = path.extname(fileName).slice(1).toLowerCase();
+  return extension || fileName.toLowerCase();
+}
+
+/**
+ * Decode a text file, rejecting content that looks binary
+ */
+function extractPlainText(
+  fileName: string,
+  extension: string,
+  data: Buffer,
+): string {
+  // Unknown extensions are accepted when the content looks like text
+  if (
+    !TEXT_EXTENSIONS.has(extension) &&
+    data.subarray(0, TEXT_SNIFF_BYTES).includes(0)
+  ) {
+    throw unsupportedFile(fileName);
+  }
+
+  return data.toString("utf8");
+}
+
+/**
+ * Error shown for file types that cannot be read
+ */
+function unsupportedFile(fileName: string): AttachmentError {
+  return new AttachmentError(
+    `Sorry, I can't read "${fileName}". Supported files are plain text, Markdown, CSV, JSON, source code and PDF.`,
+  );
+}
+
+/**
+ * Extract the text layer of a PDF
+ */
+async function extractPdfText(fileName: string, data: Buffer): Promise<string> {
+  try {
+    const result = await pdfParse(data);
+
+    if (!result.text.trim()) {
+      throw new AttachmentError(
+        `"${fileName}" has no text layer. Scanned PDFs are not supported.`,
+      );
+    }
+
+    return result.text;
+  } catch (error) {
+    if (error instanceof AttachmentError) {
+      throw error;
+    }
+
+    throw new AttachmentError(
+      `Sorry, I couldn't read the PDF "${fileName}".`,
+      error instanceof Error ? error : undefined,
+    );
+  }
+}
+
+/**
+ * Shorten text to about maxTokens, keeping its beginning and end
+ *
+ * The end is kept as well since logs usually end with the interesting part.
+ */
+function truncateToTokens(text: string, maxTokens: number): string {
+  const tokens = estimateTokens(text);
+  if (tokens <= maxTokens) {
+    return text;
+  }
+
+  const keepChars = Math.floor(text.length * (maxTokens / tokens));
+  const headChars = Math.floor(keepChars / 2);
+  const tailChars = keepChars - headChars;
+
+  return [
+    text.slice(0, headChars),
+    `\n… [truncated about ${tokens - maxTokens} tokens] …\n`,
+    text.slice(text.length - tailChars),
+  ].join("");
+}
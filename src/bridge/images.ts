@@ -0,0 +1,93 @@
+import { getLogger } from "../utils/logger";
+import { LarkClient } from "../lark/client";
+import type { MoltbotImagePart } from "../moltbot/types";
+
+const logger = getLogger();
+
+/**
+ * Image loader options
+ */
+export interface ImageLoaderOptions {
+  maxImageBytes?: number; // Largest image that is downloaded
+  cacheBytes?: number; // Total size of cached images
+}
+
+/**
+ * Downloads images attached to Lark messages as model input
+ *
+ * Images are cached by image key, evicting the least recently used ones once
+ * the cache grows past its size limit.
+ */
+export class ImageLoader {
+  private cache: Map<string, MoltbotImagePart> = new Map();
+  private cachedBytes: number = 0;
+  private maxImageBytes: number;
+  private cacheBytes: number;
+
+  constructor(
+    private larkClient: LarkClient,
+    options: ImageLoaderOptions = {},
+  ) {
+    this.maxImageBytes = options.maxImageBytes || 5 * 1024 * 1024;
+    this.cacheBytes = options.cacheBytes || 50 * 1024 * 1024;
+  }
+
+  /**
+   * Get an image of a message as a content part
+   */
+  async load(messageId: string, imageKey: string): Promise<MoltbotImagePart> {
+    const cached = this.cache.get(imageKey);
+    if (cached) {
+      // Move to the end so it is evicted last
+      this.cache.delete(imageKey);
+      this.cache.set(imageKey, cached);
+      return cached;
+    }
+
+    const resource = await this.larkClient.downloadMessageResource(
+      messageId,
+      imageKey,
+      "image",
+      this.maxImageBytes,
+    );
+
+    const part: MoltbotImagePart = {
+      type: "image",
+      image: resource.data.toString("base64"),
+      mimeType: resource.mimeType?.startsWith("image/")
+        ? resource.mimeType
+        : undefined,
+    };
+
+    this.store(imageKey, part);
+
+    logger.debug("Loaded message image", {
+      imageKey,
+      size: resource.data.length,
+      mimeType: part.mimeType,
+    });
+
+    return part;
+  }
+
+  /**
+   * Add an image to the cache, evicting old entries to stay within the limit
+   */
+  private store(imageKey: string, part: MoltbotImagePart): void {
+    const size = part.image.length;
+    if (size > this.cacheBytes) {
+      return;
+    }
+
+    for (const [key, entry] of this.cache) {
+      if (this.cachedBytes + size <= this.cacheBytes) {
+        break;
+      }
+      this.cache.delete(key);
+      this.cachedBytes -= entry.image.length;
+    }
+
+    this.cache.set(imageKey, part);
+    this.cachedBytes += size;
+  }
+}
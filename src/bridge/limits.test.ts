@@ -0,0 +1,58 @@
+import { QuotaExceededError, RateLimitError } from "../utils/errors";
+import { UsageLimiter } from "./limits";
+
+const subject = { chatId: "oc_1", senderId: "ou_1" };
+
+describe("UsageLimiter", () => {
+  it("limits the turns of a sender per minute", () => {
+    jest.useFakeTimers();
+    try {
+      const limiter = new UsageLimiter({
+        user: { messagesPerMinute: 2, dailyTokens: 0 },
+        chat: { messagesPerMinute: 0, dailyTokens: 0 },
+      });
+
+      limiter.consume(subject);
+      limiter.consume(subject);
+      expect(() => limiter.consume(subject)).toThrow(RateLimitError);
+      expect(() =>
+        limiter.consume({ chatId: "oc_1", senderId: "ou_2" }),
+      ).not.toThrow();
+
+      jest.advanceTimersByTime(30 * 1000);
+      expect(() => limiter.consume(subject)).not.toThrow();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("takes nothing from any bucket when one is empty", () => {
+    const limiter = new UsageLimiter({
+      user: { messagesPerMinute: 5, dailyTokens: 0 },
+      chat: { messagesPerMinute: 1, dailyTokens: 0 },
+    });
+
+    limiter.consume(subject);
+    for (let i = 0; i < 5; i++) {
+      expect(() => limiter.consume(subject)).toThrow(RateLimitError);
+    }
+    expect(() =>
+      limiter.consume({ chatId: "oc_2", senderId: "ou_1" }),
+    ).not.toThrow();
+  });
+
+  it("stops a chat that used up its daily tokens", () => {
+    const limiter = new UsageLimiter({
+      user: { messagesPerMinute: 0, dailyTokens: 0 },
+      chat: { messagesPerMinute: 0, dailyTokens: 100 },
+    });
+
+    limiter.recordUsage(subject, 60);
+    expect(() => limiter.consume(subject)).not.toThrow();
+
+    limiter.recordUsage(subject, 40);
+    expect(limiter.getDailyTokens("chat", "oc_1")).toBe(100);
+    expect(limiter.getDailyTokens("user", "ou_1")).toBe(100);
+    expect(() => limiter.consume(subject)).toThrow(QuotaExceededError);
+  });
+});
@@ -0,0 +1,216 @@
+import { getLogger } from "../utils/logger";
+import { QuotaExceededError, RateLimitError } from "../utils/errors";
+import { MemoryStore } from "../storage";
+import type { KeyValueStore } from "../storage";
+
+const logger = getLogger();
+
+/**
+ * Limits applied to one user or one chat
+ */
+export interface UsageLimit {
+  messagesPerMinute: number; // 0 disables the rate limit
+  dailyTokens: number; // 0 disables the quota
+}
+
+/**
+ * Token usage of one user or chat on one day
+ */
+export interface DailyUsage {
+  day: string; // UTC date, YYYY-MM-DD
+  tokens: number;
+}
+
+/**
+ * Usage limiter options
+ */
+export interface UsageLimiterOptions {
+  user: UsageLimit;
+  chat: UsageLimit;
+  store?: KeyValueStore<DailyUsage>; // Daily usage by key, in memory by default
+}
+
+/**
+ * Sender and chat a model call is made for
+ */
+export interface UsageSubject {
+  chatId: string;
+  senderId?: string;
+}
+
+/**
+ * Token bucket refilled continuously up to its capacity
+ */
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+type Scope = "user" | "chat";
+
+/**
+ * Per-user and per-chat rate limits and daily token quotas
+ *
+ * Rate limits are token buckets of messagesPerMinute answered turns and are
+ * kept in memory. Daily token usage is counted from the usage reported by
+ * the model and resets at midnight UTC.
+ */
+export class UsageLimiter {
+  private buckets: Map<string, Bucket> = new Map();
+  private usage: KeyValueStore<DailyUsage>;
+
+  constructor(private options: UsageLimiterOptions) {
+    this.usage = options.store || new MemoryStore();
+  }
+
+  /**
+   * Take one turn from the rate limits of the subject
+   *
+   * Fails with a QuotaExceededError when a daily quota is used up, or with a
+   * RateLimitError when a bucket is empty. Nothing is taken on failure.
+   */
+  consume(subject: UsageSubject): void {
+    const now = Date.now();
+    const scopes = this.getScopes(subject);
+
+    for (const [scope, id] of scopes) {
+      const limit = this.options[scope];
+      if (limit.dailyTokens > 0) {
+        const used = this.getDailyTokens(scope, id);
+        if (used >= limit.dailyTokens) {
+          logger.warn("Daily token quota exceeded", { scope, id, used });
+          throw new QuotaExceededError(
+            scope === "user"
+              ? "You've used up your daily token quota. It resets at midnight UTC."
+              : "This chat has used up its daily token quota. It resets at midnight UTC.",
+            scope,
+          );
+        }
+      }
+    }
+
+    const taken: Bucket[] = [];
+    for (const [scope, id] of scopes) {
+      const perMinute = this.options[scope].messagesPerMinute;
+      if (perMinute <= 0) {
+        continue;
+      }
+
+      const bucket = this.refill(`${scope}:${id}`, perMinute, now);
+      if (bucket.tokens < 1) {
+        const retryAfterMs = Math.ceil(
+          ((1 - bucket.tokens) * 60 * 1000) / perMinute,
+        );
+        logger.warn("Rate limit exceeded", { scope, id, retryAfterMs });
+        throw new RateLimitError(
+          `${scope === "user" ? "You're" : "This chat is"} sending messages too quickly. Please try again in ${Math.ceil(retryAfterMs / 1000)} s.`,
+          scope,
+          retryAfterMs,
+        );
+      }
+      taken.push(bucket);
+    }
+
+    for (const bucket of taken) {
+      bucket.tokens -= 1;
+    }
+  }
+
+  /**
+   * Count tokens used by a model call against the daily quotas
+   */
+  recordUsage(subject: UsageSubject, tokens: number): void {
+    if (!Number.isFinite(tokens) || tokens <= 0) {
+      return;
+    }
+
+    const day = today();
+    for (const [scope, id] of this.getScopes(subject)) {
+      const key = `${scope}:${id}`;
+      const current = this.usage.get(key);
+      this.usage.set(key, {
+        day,
+        tokens: (current?.day === day ? current.tokens : 0) + tokens,
+      });
+    }
+  }
+
+  /**
+   * Get the tokens a user or chat used today
+   */
+  getDailyTokens(scope: Scope, id: string): number {
+    const current = this.usage.get(`${scope}:${id}`);
+    return current?.day === today() ? current.tokens : 0;
+  }
+
+  /**
+   * Forget full buckets and usage of earlier days
+   */
+  cleanup(): number {
+    const now = Date.now();
+    const day = today();
+    let removed = 0;
+
+    for (const [key, bucket] of this.buckets) {
+      const scope = key.slice(0, key.indexOf(":")) as Scope;
+      const perMinute = this.options[scope].messagesPerMinute;
+      if (this.refill(key, perMinute, now).tokens >= perMinute) {
+        this.buckets.delete(key);
+        removed++;
+      }
+    }
+
+    for (const [key, usage] of this.usage.entries()) {
+      if (usage.day !== day) {
+        this.usage.delete(key);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Release the underlying store
+   */
+  close(): void {
+    this.usage.close();
+  }
+
+  /**
+   * Get the scopes a subject is limited in
+   */
+  private getScopes(subject: UsageSubject): Array<[Scope, string]> {
+    const scopes: Array<[Scope, string]> = [["chat", subject.chatId]];
+    if (subject.senderId) {
+      scopes.unshift(["user", subject.senderId]);
+    }
+    return scopes;
+  }
+
+  /**
+   * Get a bucket with the tokens earned since its last update added
+   */
+  private refill(key: string, perMinute: number, now: number): Bucket {
+    const bucket = this.buckets.get(key);
+    if (!bucket) {
+      const created = { tokens: perMinute, updatedAt: now };
+      this.buckets.set(key, created);
+      return created;
+    }
+
+    bucket.tokens = Math.min(
+      perMinute,
+      bucket.tokens + ((now - bucket.updatedAt) * perMinute) / (60 * 1000),
+    );
+    bucket.updatedAt = now;
+    return bucket;
+  }
+}
+
+/**
+ * Get the current UTC date as YYYY-MM-DD
+ */
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
@@ -0,0 +1,83 @@
+import { StreamProcessor } from "./processor";
+import type {
+  MoltbotStreamPart,
+  MoltbotStreamResponse,
+} from "../moltbot/types";
+
+/**
+ * Build a stream of text chunks, advancing the clock before each one
+ */
+function createStream(
+  chunks: string[],
+  stepMs: number,
+  clock: { now: number },
+): MoltbotStreamResponse {
+  async function* parts(): AsyncIterable<MoltbotStreamPart> {
+    for (const text of chunks) {
+      clock.now += stepMs;
+      yield { type: "text", text };
+    }
+  }
+
+  return {
+    parts: parts(),
+    text: Promise.resolve(chunks.join("")),
+    finishReason: Promise.resolve("stop"),
+    usage: Promise.resolve(undefined),
+  };
+}
+
+describe("StreamProcessor", () => {
+  const clock = { now: 1_000_000 };
+
+  beforeEach(() => {
+    jest.spyOn(Date, "now").mockImplementation(() => clock.now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("throttles partial updates of a long stream", async () => {
+    const updates: Array<[string, boolean]> = [];
+    const processor = new StreamProcessor(
+      "oc_1",
+      async (_chatId, content, isComplete) => {
+        updates.push([content, isComplete]);
+      },
+      { chunkThreshold: 100, timeThreshold: 1000 },
+    );
+    const chunks = Array.from({ length: 50 }, () => "x".repeat(10));
+
+    // 500 characters over 5 seconds: one update per second, then the final
+    const result = await processor.process(createStream(chunks, 100, clock));
+
+    expect(result).toBe("x".repeat(500));
+    expect(updates.map(([content]) => content.length)).toEqual([
+      100, 200, 300, 400, 500, 500,
+    ]);
+    expect(updates.map(([, isComplete]) => isComplete)).toEqual([
+      false,
+      false,
+      false,
+      false,
+      false,
+      true,
+    ]);
+  });
+
+  it("waits for enough new text however slowly it arrives", async () => {
+    const updates: string[] = [];
+    const processor = new StreamProcessor(
+      "oc_1",
+      async (_chatId, content) => {
+        updates.push(content);
+      },
+      { chunkThreshold: 100, timeThreshold: 1000 },
+    );
+
+    await processor.process(createStream(["a", "b", "c"], 2000, clock));
+
+    expect(updates).toEqual(["abc"]);
+  });
+});
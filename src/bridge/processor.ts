@@ -1,6 +1,10 @@
 import { getLogger, createChildLogger } from "../utils/logger";
 import { retry } from "../utils/retry";
-import type { MoltbotStreamResponse } from "../moltbot/types";
+import { metrics } from "../utils/metrics";
+import type {
+  MoltbotStreamPart,
+  MoltbotStreamResponse,
+} from "../moltbot/types";
 import type { StreamProcessingOptions } from "../moltbot/types";
 
 const logger = getLogger();
@@ -11,6 +15,7 @@ const logger = getLogger();
 export class StreamProcessor {
   private buffer: string = "";
   private lastUpdateTime: number = 0;
+  private lastSentLength: number = 0; // Buffer length at the last update
   private isComplete: boolean = false;
 
   constructor(
@@ -26,6 +31,8 @@ export class StreamProcessor {
       chunkThreshold: options.chunkThreshold || 100,
       timeThreshold: options.timeThreshold || 1000,
       sendPartialUpdates: options.sendPartialUpdates ?? true,
+      abortSignal: options.abortSignal,
+      describeTool: options.describeTool,
     };
   }
 
@@ -34,31 +41,65 @@ export class StreamProcessor {
    */
   async process(streamResponse: MoltbotStreamResponse): Promise<string> {
     const childLogger = createChildLogger({ chatId: this.chatId });
+    const stopDurationTimer = metrics.streamDurationSeconds.startTimer();
 
     try {
       childLogger.info("Starting to process streaming response");
 
       let fullResponse = "";
       let chunkCount = 0;
+      const stopFirstTokenTimer = metrics.streamFirstTokenSeconds.startTimer();
 
       // Process text stream
-      for await (const chunk of streamResponse.textStream) {
-        chunkCount++;
-        this.buffer += chunk;
-        fullResponse += chunk;
-        const now = Date.now();
-
-        childLogger.debug("Received stream chunk", {
-          chunkIndex: chunkCount,
-          chunkLength: chunk.length,
-          bufferLength: this.buffer.length,
-        });
-
-        // Check if we should send a partial update
-        if (this.shouldSendPartialUpdate(now)) {
-          await this.sendPartialUpdate(this.buffer, false);
-          this.lastUpdateTime = now;
+      try {
+        for await (const part of streamResponse.parts) {
+          if (this.options.abortSignal?.aborted) {
+            break;
+          }
+
+          if (part.type !== "text") {
+            await this.showToolProgress(part, fullResponse, childLogger);
+            continue;
+          }
+
+          const chunk = part.text;
+          if (chunkCount === 0) {
+            stopFirstTokenTimer();
+          }
+          chunkCount++;
+          this.buffer += chunk;
+          fullResponse += chunk;
+          const now = Date.now();
+
+          childLogger.debug("Received stream chunk", {
+            chunkIndex: chunkCount,
+            chunkLength: chunk.length,
+            bufferLength: this.buffer.length,
+          });
+
+          // Check if we should send a partial update
+          if (this.shouldSendPartialUpdate(now)) {
+            await this.sendPartialUpdate(this.buffer, false);
+            this.lastUpdateTime = now;
+            this.lastSentLength = this.buffer.length;
+          }
         }
+      } catch (error) {
+        // An aborted request ends the stream with an error; keep what we have
+        if (!this.options.abortSignal?.aborted) {
+          throw error;
+        }
+      }
+
+      if (this.options.abortSignal?.aborted) {
+        childLogger.info("Stream processing stopped", {
+          totalChunks: chunkCount,
+        });
+        fullResponse += "\n\n_(stopped)_";
+        this.isComplete = true;
+        await this.sendPartialUpdate(fullResponse, true);
+        stopDurationTimer({ outcome: "stopped" });
+        return fullResponse;
       }
 
       // Send final update
@@ -73,9 +114,11 @@ export class StreamProcessor {
       // Wait for finish reason
       const finishReason = await streamResponse.finishReason;
       childLogger.debug("Stream finish reason", { finishReason });
+      stopDurationTimer({ outcome: "completed" });
 
       return fullResponse;
     } catch (error) {
+      stopDurationTimer({ outcome: "error" });
       childLogger.error("Error processing stream", {
         error: error instanceof Error ? error.message : String(error),
         stack: error instanceof Error ? error.stack : undefined,
@@ -84,8 +127,41 @@ export class StreamProcessor {
     }
   }
 
+  /**
+   * Show a running tool call under the text received so far
+   *
+   * The progress line is dropped again by the next text update.
+   */
+  private async showToolProgress(
+    part: Exclude<MoltbotStreamPart, { type: "text" }>,
+    content: string,
+    childLogger: ReturnType<typeof createChildLogger>,
+  ): Promise<void> {
+    childLogger.debug("Tool call progress", {
+      type: part.type,
+      toolName: part.toolName,
+    });
+
+    if (part.type !== "tool-call" || !this.options.sendPartialUpdates) {
+      return;
+    }
+
+    const label = this.options.describeTool
+      ? this.options.describeTool(part.toolName)
+      : part.toolName;
+    await this.sendPartialUpdate(
+      content ? `${content}\n\n🔧 ${label}…` : `🔧 ${label}…`,
+      false,
+    );
+    this.lastUpdateTime = Date.now();
+    this.lastSentLength = this.buffer.length;
+  }
+
   /**
    * Check if we should send a partial update
+   *
+   * Every update patches the same card, so both enough new text and enough
+   * time since the last update are needed to stay within Lark's rate limits.
    */
   private shouldSendPartialUpdate(now: number): boolean {
     if (!this.options.sendPartialUpdates) {
@@ -93,11 +169,11 @@ export class StreamProcessor {
     }
 
     const timeSinceLastUpdate = now - this.lastUpdateTime;
-    const bufferLength = this.buffer.length;
+    const newLength = this.buffer.length - this.lastSentLength;
 
     return (
-      bufferLength >= this.options.chunkThreshold! ||
-      (bufferLength > 0 && timeSinceLastUpdate >= this.options.timeThreshold!)
+      newLength >= this.options.chunkThreshold! &&
+      timeSinceLastUpdate >= this.options.timeThreshold!
     );
   }
 
@@ -114,6 +190,7 @@ export class StreamProcessor {
         {
           maxAttempts: 3,
         },
+        "stream.update",
       );
 
       if (isComplete) {
@@ -149,6 +226,7 @@ export class StreamProcessor {
   reset(): void {
     this.buffer = "";
     this.lastUpdateTime = 0;
+    this.lastSentLength = 0;
     this.isComplete = false;
   }
 }
@@ -0,0 +1,48 @@
+import { SystemPromptResolver } from "./prompts";
+import type { LarkClient } from "../lark/client";
+
+function createResolver() {
+  const getUserName = jest.fn(async (openId: string) => `Name ${openId}`);
+  const resolver = new SystemPromptResolver(
+    { default: "Talking to {{senderName}}", chatTypes: {}, chats: {} },
+    { getUserName } as unknown as LarkClient,
+  );
+
+  return { resolver, getUserName };
+}
+
+describe("SystemPromptResolver", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("looks names up again once they expire", async () => {
+    const { resolver, getUserName } = createResolver();
+    const now = Date.now();
+    const clock = jest.spyOn(Date, "now").mockReturnValue(now);
+
+    await resolver.resolve({ chatId: "oc_1", senderId: "ou_1" });
+    await resolver.resolve({ chatId: "oc_1", senderId: "ou_1" });
+    expect(getUserName).toHaveBeenCalledTimes(1);
+
+    clock.mockReturnValue(now + 61 * 60 * 1000);
+    await expect(
+      resolver.resolve({ chatId: "oc_1", senderId: "ou_1" }),
+    ).resolves.toEqual({ role: "system", content: "Talking to Name ou_1" });
+    expect(getUserName).toHaveBeenCalledTimes(2);
+  });
+
+  it("evicts the least recently used names once full", async () => {
+    const { resolver, getUserName } = createResolver();
+
+    for (let i = 0; i <= 1000; i++) {
+      await resolver.resolve({ chatId: "oc_1", senderId: `ou_${i}` });
+    }
+    expect(getUserName).toHaveBeenCalledTimes(1001);
+
+    await resolver.resolve({ chatId: "oc_1", senderId: "ou_1000" });
+    expect(getUserName).toHaveBeenCalledTimes(1001);
+    await resolver.resolve({ chatId: "oc_1", senderId: "ou_0" });
+    expect(getUserName).toHaveBeenCalledTimes(1002);
+  });
+});
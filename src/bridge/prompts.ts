@@ -0,0 +1,177 @@
+import { getLogger } from "../utils/logger";
+import { LarkClient } from "../lark/client";
+import type { PromptsConfig } from "../config";
+import type { MoltbotMessage } from "../moltbot/types";
+
+const logger = getLogger();
+
+// How long looked-up chat and user names are reused
+const NAME_CACHE_TTL = 60 * 60 * 1000; // 1 hour
+// Most chat and user names kept, the least recently used are evicted first
+const NAME_CACHE_SIZE = 1000;
+
+/**
+ * Who and where a system prompt is resolved for
+ */
+export interface PromptTarget {
+  chatId: string;
+  chatType?: string; // Looked up from the chat when missing
+  senderId?: string;
+}
+
+/**
+ * Resolves the system prompt of a chat from configuration
+ *
+ * Precedence is per-chat override, then chat type (p2p or group), then the
+ * global default. Templates may use `{{senderName}}`, `{{chatName}}` and
+ * `{{date}}`.
+ */
+export class SystemPromptResolver {
+  private nameCache: Map<string, { value?: string; expiresAt: number }> =
+    new Map();
+
+  constructor(
+    private config: PromptsConfig,
+    private larkClient: LarkClient,
+  ) {
+    logger.info("System prompt resolver initialized", {
+      hasDefault: !!config.default,
+      chatTypeOverrides: Object.keys(config.chatTypes || {}),
+      chatOverrides: Object.keys(config.chats || {}).length,
+    });
+  }
+
+  /**
+   * Get the system message for a chat, if any prompt applies
+   *
+   * An override template (set with /system) takes precedence over config.
+   */
+  async resolve(
+    target: PromptTarget,
+    overrideTemplate?: string,
+  ): Promise<MoltbotMessage | undefined> {
+    const template = overrideTemplate || (await this.selectTemplate(target));
+    if (!template) {
+      return undefined;
+    }
+
+    return {
+      role: "system",
+      content: await this.render(template, target),
+    };
+  }
+
+  /**
+   * Pick the most specific configured template
+   */
+  private async selectTemplate(
+    target: PromptTarget,
+  ): Promise<string | undefined> {
+    const chatPrompt = this.config.chats?.[target.chatId];
+    if (chatPrompt) {
+      return chatPrompt;
+    }
+
+    const chatTypes = this.config.chatTypes;
+    if (chatTypes && Object.keys(chatTypes).length > 0) {
+      const chatType =
+        target.chatType || (await this.lookupChatType(target.chatId));
+      const chatTypePrompt =
+        chatType === "p2p" ? chatTypes.p2p : chatTypes.group;
+      if (chatTypePrompt) {
+        return chatTypePrompt;
+      }
+    }
+
+    return this.config.default;
+  }
+
+  /**
+   * Replace template variables, looking names up only when used
+   */
+  private async render(
+    template: string,
+    target: PromptTarget,
+  ): Promise<string> {
+    const values: Record<string, () => Promise<string>> = {
+      date: async () => new Date().toLocaleDateString("en-CA"),
+      chatName: async () => (await this.lookupChatName(target.chatId)) || "",
+      senderName: async () =>
+        (target.senderId && (await this.lookupUserName(target.senderId))) || "",
+    };
+
+    let rendered = template;
+    for (const [name, getValue] of Object.entries(values)) {
+      const placeholder = `{{${name}}}`;
+      if (rendered.includes(placeholder)) {
+        rendered = rendered.split(placeholder).join(await getValue());
+      }
+    }
+
+    return rendered;
+  }
+
+  /**
+   * Get the type of a chat, "p2p" or "group", cached after the first lookup
+   */
+  async lookupChatType(chatId: string): Promise<string | undefined> {
+    const chatMode = await this.cached(
+      `chatMode:${chatId}`,
+      async () => (await this.larkClient.getChatInfo(chatId)).chatMode,
+    );
+
+    // Topic chats behave like groups
+    return chatMode === "p2p" ? "p2p" : chatMode ? "group" : undefined;
+  }
+
+  private lookupChatName(chatId: string): Promise<string | undefined> {
+    return this.cached(
+      `chatName:${chatId}`,
+      async () => (await this.larkClient.getChatInfo(chatId)).name,
+    );
+  }
+
+  private lookupUserName(openId: string): Promise<string | undefined> {
+    return this.cached(`userName:${openId}`, () =>
+      this.larkClient.getUserName(openId),
+    );
+  }
+
+  /**
+   * Return a cached lookup, treating failures as a missing value
+   *
+   * Entries expire after an hour, and the least recently used ones are
+   * evicted once the cache is full.
+   */
+  private async cached(
+    key: string,
+    lookup: () => Promise<string | undefined>,
+  ): Promise<string | undefined> {
+    const entry = this.nameCache.get(key);
+    this.nameCache.delete(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      // Re-insert to mark as most recently used
+      this.nameCache.set(key, entry);
+      return entry.value;
+    }
+
+    let value: string | undefined;
+    try {
+      value = await lookup();
+    } catch (error) {
+      logger.warn("Failed to look up system prompt variable", {
+        key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    this.nameCache.set(key, { value, expiresAt: Date.now() + NAME_CACHE_TTL });
+    for (const oldest of this.nameCache.keys()) {
+      if (this.nameCache.size <= NAME_CACHE_SIZE) {
+        break;
+      }
+      this.nameCache.delete(oldest);
+    }
+    return value;
+  }
+}
@@ -0,0 +1,128 @@
+import { QueueFullError } from "../utils/errors";
+import { ChatWorkQueue } from "./queue";
+
+/**
+ * Create a task that runs until its release function is called
+ */
+function blockingTask(order: string[], name: string) {
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+
+  return {
+    release,
+    task: async () => {
+      order.push(`start ${name}`);
+      await released;
+      order.push(`end ${name}`);
+      return name;
+    },
+  };
+}
+
+describe("ChatWorkQueue", () => {
+  it("runs the tasks of a chat in order", async () => {
+    const queue = new ChatWorkQueue(5);
+    const order: string[] = [];
+    const first = blockingTask(order, "first");
+    const second = blockingTask(order, "second");
+
+    const results = [
+      queue.run("oc_1", first.task),
+      queue.run("oc_1", second.task),
+    ];
+    await Promise.resolve();
+    expect(order).toEqual(["start first"]);
+    expect(queue.getDepth("oc_1")).toBe(2);
+
+    second.release();
+    first.release();
+
+    await expect(Promise.all(results)).resolves.toEqual(["first", "second"]);
+    expect(order).toEqual([
+      "start first",
+      "end first",
+      "start second",
+      "end second",
+    ]);
+    expect(queue.getActiveChats()).toBe(0);
+  });
+
+  it("runs different chats in parallel", async () => {
+    const queue = new ChatWorkQueue(5);
+    const order: string[] = [];
+    const first = blockingTask(order, "first");
+    const second = blockingTask(order, "second");
+
+    const results = [
+      queue.run("oc_1", first.task),
+      queue.run("oc_2", second.task),
+    ];
+    await Promise.resolve();
+    expect(order).toEqual(["start first", "start second"]);
+
+    first.release();
+    second.release();
+    await Promise.all(results);
+  });
+
+  it("keeps going after a failed task", async () => {
+    const queue = new ChatWorkQueue(5);
+
+    const failed = queue.run("oc_1", async () => {
+      throw new Error("Failed");
+    });
+    const next = queue.run("oc_1", async () => "next");
+
+    await expect(failed).rejects.toThrow("Failed");
+    await expect(next).resolves.toBe("next");
+  });
+
+  it("rejects tasks beyond the maximum depth and reports waiting ones", async () => {
+    const queue = new ChatWorkQueue(1);
+    const order: string[] = [];
+    const first = blockingTask(order, "first");
+    const onQueued = jest.fn();
+
+    const results = [
+      queue.run("oc_1", first.task),
+      queue.run("oc_1", async () => "second", onQueued),
+    ];
+    await expect(queue.run("oc_1", async () => "third")).rejects.toBeInstanceOf(
+      QueueFullError,
+    );
+
+    await Promise.resolve();
+    expect(onQueued).toHaveBeenCalledWith(1);
+
+    first.release();
+    await Promise.all(results);
+  });
+
+  it("reports idle once every chat has finished", async () => {
+    const queue = new ChatWorkQueue(5);
+    const order: string[] = [];
+    const first = blockingTask(order, "first");
+    const second = blockingTask(order, "second");
+    queue.run("oc_1", first.task);
+    queue.run("oc_2", second.task);
+    queue.run("oc_2", async () => "third");
+
+    let idle = false;
+    const waiting = queue.onIdle().then(() => {
+      idle = true;
+    });
+    first.release();
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(idle).toBe(false);
+
+    second.release();
+    await waiting;
+    expect(queue.getActiveChats()).toBe(0);
+  });
+
+  it("is idle at once without tasks", async () => {
+    await expect(new ChatWorkQueue(5).onIdle()).resolves.toBeUndefined();
+  });
+});
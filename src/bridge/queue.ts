@@ -0,0 +1,99 @@
+import { getLogger } from "../utils/logger";
+import { QueueFullError } from "../utils/errors";
+
+const logger = getLogger();
+
+/**
+ * Per-chat work queue
+ *
+ * Work for one chat runs strictly in order so turns never read a history
+ * that another turn is still writing; different chats run in parallel.
+ */
+export class ChatWorkQueue {
+  // Last queued task of each chat, settled when the chat becomes idle
+  private tails: Map<string, Promise<void>> = new Map();
+  // Running plus waiting tasks of each chat
+  private depths: Map<string, number> = new Map();
+
+  constructor(private maxDepth: number) {}
+
+  /**
+   * Run a task after all earlier tasks of the chat
+   *
+   * `onQueued` is called without waiting with the number of tasks ahead when
+   * the task has to wait. Fails with a QueueFullError when maxDepth tasks are already waiting.
+   */
+  async run<T>(
+    chatId: string,
+    task: () => Promise<T>,
+    onQueued?: (ahead: number) => Promise<void> | void,
+  ): Promise<T> {
+    const ahead = this.getDepth(chatId);
+
+    if (ahead > this.maxDepth) {
+      logger.warn("Chat queue is full", { chatId, depth: ahead });
+      throw new QueueFullError(
+        "You have too many messages waiting. Please wait for the current answers before sending more.",
+      );
+    }
+
+    this.depths.set(chatId, ahead + 1);
+
+    const previous = this.tails.get(chatId) || Promise.resolve();
+    const result = previous.then(task);
+    const tail = result.then(
+      () => undefined,
+      () => undefined,
+    );
+    this.tails.set(chatId, tail);
+
+    if (ahead > 0 && onQueued) {
+      Promise.resolve()
+        .then(() => onQueued(ahead))
+        .catch((error) => {
+          logger.warn("Failed to report queued message", {
+            chatId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+    }
+
+    try {
+      return await result;
+    } finally {
+      const depth = this.getDepth(chatId) - 1;
+      if (depth > 0) {
+        this.depths.set(chatId, depth);
+      } else {
+        this.depths.delete(chatId);
+      }
+
+      if (this.tails.get(chatId) === tail) {
+        this.tails.delete(chatId);
+      }
+    }
+  }
+
+  /**
+   * Get the number of running and waiting tasks of a chat
+   */
+  getDepth(chatId: string): number {
+    return this.depths.get(chatId) || 0;
+  }
+
+  /**
+   * Wait until no chat has running or waiting tasks
+   */
+  async onIdle(): Promise<void> {
+    while (this.tails.size > 0) {
+      await Promise.all(this.tails.values());
+    }
+  }
+
+  /**
+   * Get the number of chats with running or waiting tasks
+   */
+  getActiveChats(): number {
+    return this.depths.size;
+  }
+}
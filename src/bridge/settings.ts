@@ -0,0 +1,67 @@
+import { getLogger } from "../utils/logger";
+import { MemoryStore } from "../storage";
+import type { KeyValueStore } from "../storage";
+
+const logger = getLogger();
+
+/**
+ * Per-chat overrides set through chat commands
+ */
+export interface ChatSettings {
+  model?: string;
+  temperature?: number;
+  systemPrompt?: string;
+}
+
+/**
+ * Chat settings manager backed by a key-value store
+ */
+export class ChatSettingsManager {
+  private settings: KeyValueStore<ChatSettings>;
+
+  constructor(store?: KeyValueStore<ChatSettings>) {
+    this.settings = store || new MemoryStore();
+  }
+
+  /**
+   * Get the settings of a chat
+   */
+  get(chatId: string): ChatSettings {
+    return this.settings.get(chatId) || {};
+  }
+
+  /**
+   * Merge changes into the settings of a chat
+   *
+   * Keys set to undefined are removed, falling back to the configured default.
+   */
+  update(chatId: string, changes: Partial<ChatSettings>): ChatSettings {
+    const updated: ChatSettings = { ...this.get(chatId), ...changes };
+
+    for (const key of Object.keys(updated) as Array<keyof ChatSettings>) {
+      if (updated[key] === undefined) {
+        delete updated[key];
+      }
+    }
+
+    if (Object.keys(updated).length === 0) {
+      this.settings.delete(chatId);
+    } else {
+      this.settings.set(chatId, updated);
+    }
+
+    logger.debug("Updated chat settings", {
+      chatId,
+      changed: Object.keys(changes),
+    });
+
+    return updated;
+  }
+
+  /**
+   * Release the underlying store
+   */
+  close(): void {
+    this.settings.close();
+  }
+}
@@ -0,0 +1,21 @@
+import { ConversationSummarizer } from "./summarizer";
+import type { MoltbotClient } from "../moltbot/client";
+
+describe("ConversationSummarizer", () => {
+  it("reports the tokens of each summary for its chat", async () => {
+    const usage = { promptTokens: 40, completionTokens: 8, totalTokens: 48 };
+    const client = {
+      sendRequest: jest.fn(async () => ({ text: " Summary ", usage })),
+      getModelName: () => "model",
+    } as unknown as MoltbotClient;
+    const onUsage = jest.fn();
+    const summarizer = new ConversationSummarizer(client, { onUsage });
+
+    const summary = await summarizer.summarize("oc_1", undefined, [
+      { role: "user", content: "Hello" },
+    ]);
+
+    expect(summary).toBe("Summary");
+    expect(onUsage).toHaveBeenCalledWith("oc_1", "model", usage);
+  });
+});
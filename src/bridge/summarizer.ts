@@ -0,0 +1,83 @@
+import { getLogger } from "../utils/logger";
+import { MoltbotClient } from "../moltbot/client";
+import { getMessageText } from "../moltbot/content";
+import type { MoltbotMessage, MoltbotResponse } from "../moltbot/types";
+
+const logger = getLogger();
+
+/**
+ * Conversation summarizer options
+ */
+export interface SummarizerOptions {
+  maxTokens?: number; // Upper bound for the generated summary
+  // Reports the tokens of each summary, for usage accounting
+  onUsage?: (
+    chatId: string,
+    model: string,
+    usage: NonNullable<MoltbotResponse["usage"]>,
+  ) => void;
+}
+
+/**
+ * Condenses conversation turns into a running summary with a secondary
+ * model call
+ */
+export class ConversationSummarizer {
+  private maxTokens: number;
+  private onUsage?: SummarizerOptions["onUsage"];
+
+  constructor(
+    private moltbotClient: MoltbotClient,
+    options: SummarizerOptions = {},
+  ) {
+    this.maxTokens = options.maxTokens || 500;
+    this.onUsage = options.onUsage;
+  }
+
+  /**
+   * Merge dropped messages of a chat into the previous summary
+   */
+  async summarize(
+    chatId: string,
+    previousSummary: string | undefined,
+    messages: MoltbotMessage[],
+  ): Promise<string> {
+    const transcript = messages
+      .filter((message) => message.role !== "system")
+      .map(
+        (message) =>
+          `${message.role === "user" ? "User" : "Assistant"}: ${getMessageText(message.content)}`,
+      )
+      .join("\n\n");
+
+    const prompt: MoltbotMessage[] = [
+      {
+        role: "system",
+        content:
+          "You maintain a running summary of a chat between a user and an AI assistant. " +
+          "Update the summary with the new messages. Keep decisions, facts, names, numbers " +
+          "and open questions; drop small talk. Write in the language of the conversation " +
+          "and reply with the updated summary only.",
+      },
+      {
+        role: "user",
+        content: `Current summary:\n${previousSummary || "(none)"}\n\nNew messages:\n${transcript}`,
+      },
+    ];
+
+    logger.debug("Summarizing conversation turns", {
+      messageCount: messages.length,
+      hasPreviousSummary: !!previousSummary,
+    });
+
+    const response = await this.moltbotClient.sendRequest(prompt, {
+      temperature: 0.2,
+      maxTokens: this.maxTokens,
+    });
+    if (response.usage) {
+      this.onUsage?.(chatId, this.moltbotClient.getModelName(), response.usage);
+    }
+
+    return response.text.trim();
+  }
+}
@@ -0,0 +1,66 @@
+import { transformLarkToMoltbot } from "./transformer";
+import { LarkMessageType } from "../lark/types";
+import type { LarkMention, ParsedLarkMessage } from "../lark/types";
+
+function mention(index: number, openId: string, name: string): LarkMention {
+  return {
+    key: `@_user_${index}`,
+    id: { open_id: openId } as LarkMention["id"],
+    name,
+    tenant_key: "tenant",
+  };
+}
+
+function message(
+  textContent: string,
+  mentions: LarkMention[],
+): ParsedLarkMessage {
+  return {
+    messageId: "om_1",
+    chatId: "oc_1",
+    chatType: "group",
+    senderId: "ou_sender",
+    senderType: "user",
+    messageType: LarkMessageType.TEXT,
+    textContent,
+    mentions,
+    timestamp: 0,
+  };
+}
+
+describe("transformLarkToMoltbot", () => {
+  it("replaces mentions with names and drops the bot's own", () => {
+    const result = transformLarkToMoltbot(
+      message("@_user_1 ask @_user_2 about it", [
+        mention(1, "ou_bot", "Bot"),
+        mention(2, "ou_alice", "Alice"),
+      ]),
+      "ou_bot",
+    );
+
+    expect(result.text).toBe("ask @Alice about it");
+  });
+
+  it("doesn't replace a mention inside a longer one", () => {
+    const mentions = Array.from({ length: 10 }, (_, i) =>
+      mention(i + 1, `ou_${i + 1}`, `User${"+".repeat(i + 1)}`),
+    );
+
+    const result = transformLarkToMoltbot(
+      message("@_user_10 and @_user_1", mentions),
+    );
+
+    expect(result.text).toBe(`@User${"+".repeat(10)} and @User+`);
+  });
+
+  it("doesn't replace placeholders inside names already put in", () => {
+    const result = transformLarkToMoltbot(
+      message("hi @_user_1", [
+        mention(1, "ou_1", "_user_2"),
+        mention(2, "ou_2", "Bob"),
+      ]),
+    );
+
+    expect(result.text).toBe("hi @_user_2");
+  });
+});
@@ -1,6 +1,10 @@
 import { getLogger } from "../utils/logger";
 import { TransformationError } from "../utils/errors";
-import type { ParsedLarkMessage, LarkPostContent } from "../lark/types";
+import type {
+  ParsedLarkMessage,
+  LarkPostContent,
+  LarkMention,
+} from "../lark/types";
 import type {
   ParsedMessageForMoltbot,
   FormattedResponseForLark,
@@ -14,6 +18,7 @@ const logger = getLogger();
  */
 export function transformLarkToMoltbot(
   message: ParsedLarkMessage,
+  botOpenId?: string,
 ): ParsedMessageForMoltbot {
   try {
     logger.debug("Transforming Lark message to Moltbot format", {
@@ -37,6 +42,7 @@ export function transformLarkToMoltbot(
       attachments.push({
         type: "image",
         key: message.imageKey,
+        messageId: message.messageId,
       });
     }
 
@@ -44,6 +50,16 @@ export function transformLarkToMoltbot(
       attachments.push({
         type: "file",
         key: message.fileKey,
+        messageId: message.messageId,
+        name: message.fileName,
+      });
+    }
+
+    if (message.audioKey) {
+      attachments.push({
+        type: "audio",
+        key: message.audioKey,
+        messageId: message.messageId,
       });
     }
 
@@ -56,10 +72,9 @@ export function transformLarkToMoltbot(
       messageId: message.messageId,
     };
 
-    // Add mentions to text
+    // Resolve mention placeholders, dropping the bot's own mention
     if (message.mentions && message.mentions.length > 0) {
-      const mentionText = message.mentions.map((m) => `@${m.name}`).join(" ");
-      text = `${mentionText} ${text}`;
+      text = replaceMentions(text, message.mentions, botOpenId);
     }
 
     const result: ParsedMessageForMoltbot = {
@@ -86,6 +101,31 @@ export function transformLarkToMoltbot(
   }
 }
 
+/**
+ * Merge transformed messages into one turn, keeping their order
+ *
+ * Texts are joined line by line, attachments are concatenated and the
+ * context of the latest message is kept.
+ */
+export function mergeMoltbotMessages(
+  messages: ParsedMessageForMoltbot[],
+): ParsedMessageForMoltbot {
+  if (messages.length === 1) {
+    return messages[0];
+  }
+
+  const attachments = messages.flatMap((message) => message.attachments || []);
+
+  return {
+    text: messages
+      .map((message) => message.text)
+      .filter((text) => !!text)
+      .join("\n"),
+    attachments: attachments.length > 0 ? attachments : undefined,
+    context: messages[messages.length - 1].context,
+  };
+}
+
 /**
  * Transform Moltbot response to Lark format
  */
@@ -140,6 +180,34 @@ export function transformMoltbotToLark(
   }
 }
 
+/**
+ * Replace mention placeholders such as "@_user_1" with names
+ *
+ * All placeholders are replaced in one pass, longest first, so "@_user_1"
+ * never matches inside "@_user_10" or inside a name already put in.
+ */
+function replaceMentions(
+  text: string,
+  mentions: LarkMention[],
+  botOpenId?: string,
+): string {
+  const names: Map<string, string> = new Map();
+  for (const mention of mentions) {
+    const isBot = !!botOpenId && mention.id?.open_id === botOpenId;
+    names.set(mention.key, isBot ? "" : `@${mention.name}`);
+  }
+
+  const pattern = Array.from(names.keys())
+    .sort((a, b) => b.length - a.length)
+    .map((key) => key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join("|");
+  const replaced = pattern
+    ? text.replace(new RegExp(pattern, "g"), (key) => names.get(key) ?? key)
+    : text;
+
+  return replaced.replace(/[ \t]{2,}/g, " ").trim();
+}
+
 /**
  * Extract text from Lark post content
  */
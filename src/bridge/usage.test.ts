@@ -0,0 +1,120 @@
+import { MemoryStore } from "../storage";
+import { UsageTracker } from "./usage";
+import type { UsageRecord } from "./usage";
+
+const day = Date.UTC(2024, 4, 1, 12);
+const nextDay = day + 24 * 60 * 60 * 1000;
+
+describe("UsageTracker", () => {
+  it("keeps one record per call with its timestamp", () => {
+    const store = new MemoryStore<UsageRecord>();
+    const tracker = new UsageTracker({ store });
+    const record = {
+      timestamp: day,
+      model: "gpt",
+      chatId: "oc_1",
+      senderId: "ou_1",
+      promptTokens: 10,
+      completionTokens: 5,
+    };
+
+    tracker.record(record);
+    tracker.record({ ...record, timestamp: day + 1000 });
+    tracker.record({ ...record, promptTokens: 0, completionTokens: 0 });
+
+    expect(store.size()).toBe(2);
+    expect(store.entries().map(([, stored]) => stored)).toContainEqual(record);
+    expect(store.keys().every((key) => key.startsWith("2024-05-01:"))).toBe(
+      true,
+    );
+  });
+
+  it("summarizes and prices the records by day and month", () => {
+    const tracker = new UsageTracker({
+      prices: { gpt: { prompt: 1, completion: 2 } },
+    });
+
+    tracker.record({
+      timestamp: day,
+      model: "gpt",
+      chatId: "oc_1",
+      promptTokens: 1_000_000,
+      completionTokens: 0,
+    });
+    tracker.record({
+      timestamp: nextDay,
+      model: "gpt",
+      chatId: "oc_1",
+      promptTokens: 0,
+      completionTokens: 1_000_000,
+    });
+    tracker.record({
+      timestamp: nextDay,
+      model: "other",
+      chatId: "oc_1",
+      promptTokens: 10,
+      completionTokens: 0,
+    });
+
+    expect(tracker.summarize("month")).toEqual([
+      {
+        period: "2024-05",
+        requests: 3,
+        promptTokens: 1_000_010,
+        completionTokens: 1_000_000,
+        cost: 3,
+        unpricedRequests: 1,
+      },
+    ]);
+    expect(tracker.summarize("day").map((summary) => summary.period)).toEqual([
+      "2024-05-01",
+      "2024-05-02",
+    ]);
+  });
+
+  it("exports one CSV row per call", () => {
+    const tracker = new UsageTracker();
+
+    for (let i = 0; i < 2; i++) {
+      tracker.record({
+        timestamp: day + i * 1000,
+        model: "gpt",
+        chatId: "oc_1",
+        senderId: "ou_1",
+        promptTokens: 2,
+        completionTokens: 1,
+      });
+    }
+
+    expect(tracker.toCsv({ since: "2024-05", until: "2024-05" })).toBe(
+      "timestamp,model,chat_id,sender_id,prompt_tokens,completion_tokens,total_tokens,cost\n" +
+        "2024-05-01T12:00:00.000Z,gpt,oc_1,ou_1,2,1,3,\n" +
+        "2024-05-01T12:00:01.000Z,gpt,oc_1,ou_1,2,1,3,\n",
+    );
+    expect(tracker.toCsv({ since: "2024-06" })).toBe(
+      "timestamp,model,chat_id,sender_id,prompt_tokens,completion_tokens,total_tokens,cost\n",
+    );
+  });
+
+  it("forgets records older than the retention period", () => {
+    const tracker = new UsageTracker({ retentionDays: 30 });
+
+    tracker.record({
+      timestamp: Date.now() - 40 * 24 * 60 * 60 * 1000,
+      model: "gpt",
+      chatId: "oc_1",
+      promptTokens: 1,
+      completionTokens: 1,
+    });
+    tracker.record({
+      timestamp: Date.now(),
+      model: "gpt",
+      chatId: "oc_1",
+      promptTokens: 1,
+      completionTokens: 1,
+    });
+
+    expect(tracker.cleanup()).toBe(1);
+    expect(tracker.summarize("day")).toHaveLength(1);
+  });
+});
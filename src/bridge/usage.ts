@@ -0,0 +1,246 @@
+import { randomUUID } from "crypto";
+import { getLogger } from "../utils/logger";
+import { MemoryStore } from "../storage";
+import type { KeyValueStore } from "../storage";
+
+const logger = getLogger();
+
+/**
+ * Token usage of one model call
+ */
+export interface UsageRecord {
+  timestamp: number;
+  model: string;
+  chatId: string;
+  senderId?: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * Price of a model per million tokens
+ */
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+/**
+ * Usage tracker options
+ */
+export interface UsageTrackerOptions {
+  store?: KeyValueStore<UsageRecord>; // Records by key, in memory by default
+  prices?: Record<string, ModelPrice>; // By model name
+  currency?: string;
+  retentionDays?: number; // How long records are kept
+}
+
+/**
+ * Period usage is aggregated by
+ */
+export type UsagePeriod = "day" | "month";
+
+/**
+ * Usage and cost of one period
+ */
+export interface UsageSummary {
+  period: string; // YYYY-MM-DD or YYYY-MM, UTC
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  unpricedRequests: number; // Calls of models missing from the price table
+}
+
+/**
+ * Filter for usage queries
+ */
+export interface UsageFilter {
+  chatId?: string;
+  senderId?: string;
+  since?: string; // Inclusive UTC date or month prefix, such as 2024-05
+  until?: string; // Inclusive UTC date or month prefix
+}
+
+// Columns of the CSV export
+const CSV_COLUMNS = [
+  "timestamp",
+  "model",
+  "chat_id",
+  "sender_id",
+  "prompt_tokens",
+  "completion_tokens",
+  "total_tokens",
+  "cost",
+];
+
+/**
+ * Records the token usage of model calls and prices it per model
+ *
+ * Records are keyed by their UTC date so expired ones are easy to find;
+ * costs are computed when reporting, so price changes apply to the past.
+ */
+export class UsageTracker {
+  private records: KeyValueStore<UsageRecord>;
+  private prices: Record<string, ModelPrice>;
+  private retentionDays: number;
+
+  readonly currency: string;
+
+  constructor(options: UsageTrackerOptions = {}) {
+    this.records = options.store || new MemoryStore();
+    this.prices = options.prices || {};
+    this.currency = options.currency || "USD";
+    this.retentionDays = options.retentionDays || 400;
+  }
+
+  /**
+   * Record the usage of one model call
+   */
+  record(record: UsageRecord): void {
+    if (record.promptTokens <= 0 && record.completionTokens <= 0) {
+      return;
+    }
+
+    this.records.set(`${toDay(record.timestamp)}:${randomUUID()}`, record);
+
+    logger.debug("Recorded model usage", {
+      model: record.model,
+      chatId: record.chatId,
+      promptTokens: record.promptTokens,
+      completionTokens: record.completionTokens,
+    });
+  }
+
+  /**
+   * Get the cost of a record, or undefined when its model has no price
+   */
+  getCost(record: UsageRecord): number | undefined {
+    const price = this.prices[record.model];
+    if (!price) {
+      return undefined;
+    }
+
+    return (
+      (record.promptTokens * price.prompt +
+        record.completionTokens * price.completion) /
+      1_000_000
+    );
+  }
+
+  /**
+   * Aggregate usage by day or month, oldest period first
+   */
+  summarize(period: UsagePeriod, filter: UsageFilter = {}): UsageSummary[] {
+    const summaries: Map<string, UsageSummary> = new Map();
+
+    for (const record of this.query(filter)) {
+      const day = toDay(record.timestamp);
+      const key = period === "month" ? day.slice(0, 7) : day;
+      const summary = summaries.get(key) || {
+        period: key,
+        requests: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        cost: 0,
+        unpricedRequests: 0,
+      };
+      const cost = this.getCost(record);
+
+      summary.requests++;
+      summary.promptTokens += record.promptTokens;
+      summary.completionTokens += record.completionTokens;
+      if (cost === undefined) {
+        summary.unpricedRequests++;
+      } else {
+        summary.cost += cost;
+      }
+      summaries.set(key, summary);
+    }
+
+    return Array.from(summaries.values()).sort((a, b) =>
+      a.period.localeCompare(b.period),
+    );
+  }
+
+  /**
+   * Export matching records as CSV, oldest first
+   */
+  toCsv(filter: UsageFilter = {}): string {
+    const rows = this.query(filter).map((record) => {
+      const cost = this.getCost(record);
+      return [
+        new Date(record.timestamp).toISOString(),
+        record.model,
+        record.chatId,
+        record.senderId || "",
+        record.promptTokens,
+        record.completionTokens,
+        record.promptTokens + record.completionTokens,
+        cost === undefined ? "" : cost.toFixed(6),
+      ]
+        .map((value) => escapeCsv(String(value)))
+        .join(",");
+    });
+
+    return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+  }
+
+  /**
+   * Forget records older than the retention period
+   */
+  cleanup(): number {
+    const cutoff = toDay(Date.now() - this.retentionDays * 24 * 60 * 60 * 1000);
+    let removed = 0;
+
+    for (const key of this.records.keys()) {
+      if (key.slice(0, 10) < cutoff) {
+        this.records.delete(key);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Release the underlying store
+   */
+  close(): void {
+    this.records.close();
+  }
+
+  /**
+   * Get the records matching a filter, oldest first
+   */
+  private query(filter: UsageFilter): UsageRecord[] {
+    return this.records
+      .entries()
+      .filter(([key, record]) => {
+        const day = key.slice(0, 10);
+        return (
+          (!filter.since || day >= filter.since) &&
+          (!filter.until ||
+            day.slice(0, filter.until.length) <= filter.until) &&
+          (!filter.chatId || record.chatId === filter.chatId) &&
+          (!filter.senderId || record.senderId === filter.senderId)
+        );
+      })
+      .map(([, record]) => record)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+}
+
+/**
+ * Get the UTC date of a timestamp as YYYY-MM-DD
+ */
+function toDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * Quote a CSV value when needed
+ */
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -1,4 +1,4 @@
 // Re-export configuration types and loader
 export * from "./schema";
-export { loadConfig } from "./loader";
+export { loadConfig, maskConfig } from "./loader";
 export { initLogger } from "../utils/logger";
@@ -0,0 +1,48 @@
+import { maskConfig } from "./loader";
+import type { Config } from "./schema";
+
+describe("maskConfig", () => {
+  const config = {
+    lark: { appId: "cli_1", appSecret: "secret", encryptKey: "" },
+    moltbot: {
+      apiKey: "sk-1",
+      providers: [{ name: "backup", apiKey: "sk-2" }],
+    },
+    tracing: {
+      enabled: true,
+      headers: { Authorization: "Bearer abc", "x-honeycomb-team": "team" },
+    },
+    webhooks: [{ url: "https://example.com", auth: { Cookie: "session=1" } }],
+  } as unknown as Config;
+
+  it("masks credentials by field name at any depth", () => {
+    const masked = maskConfig(config) as any;
+
+    expect(masked.lark).toEqual({
+      appId: "cli_1",
+      appSecret: "********",
+      encryptKey: "",
+    });
+    expect(masked.moltbot.apiKey).toBe("********");
+    expect(masked.moltbot.providers[0]).toEqual({
+      name: "backup",
+      apiKey: "********",
+    });
+    expect(masked.webhooks[0].auth.Cookie).toBe("********");
+  });
+
+  it("masks every tracing header", () => {
+    const masked = maskConfig(config) as any;
+
+    expect(masked.tracing).toEqual({
+      enabled: true,
+      headers: { Authorization: "********", "x-honeycomb-team": "********" },
+    });
+  });
+
+  it("leaves the configuration untouched", () => {
+    maskConfig(config);
+
+    expect(config.tracing.headers.Authorization).toBe("Bearer abc");
+  });
+});
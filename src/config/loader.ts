@@ -68,6 +68,7 @@ function getDefaultJsonConfig(): JsonConfig {
     features: {
       messageCards: true,
       fileAttachments: true,
+      cardActions: true,
       errorHandling: true,
       retryLogic: true,
     },
@@ -75,6 +76,93 @@ function getDefaultJsonConfig(): JsonConfig {
       level: "info",
       format: "json",
     },
+    storage: {
+      type: "memory",
+      directory: "./data",
+    },
+    conversation: {
+      maxAgeHours: 24,
+      summarization: {
+        enabled: true,
+        maxTokens: 500,
+      },
+    },
+    prompts: {
+      default: "You are a helpful assistant in Lark. Today is {{date}}.",
+    },
+    commands: {
+      enabled: true,
+    },
+    groupChat: {
+      requireMention: true,
+      alwaysListen: [],
+    },
+    attachments: {
+      maxImageBytes: 5 * 1024 * 1024,
+      imageCacheBytes: 50 * 1024 * 1024,
+      maxFileBytes: 20 * 1024 * 1024,
+    },
+    transcription: {
+      enabled: false,
+      model: "whisper-1",
+      echoTranscript: false,
+      timeoutMs: 60000,
+    },
+    dedupe: {
+      ttlHours: 12,
+      persistent: false,
+    },
+    queue: {
+      maxDepth: 5,
+      notifyQueued: true,
+    },
+    debounce: {
+      windowMs: 0,
+      maxWaitMs: 10000,
+    },
+    concurrency: {
+      maxConcurrent: 10,
+      maxQueue: 50,
+      queueTimeoutMs: 30000,
+    },
+    limits: {
+      user: {
+        messagesPerMinute: 10,
+        dailyTokens: 0,
+      },
+      chat: {
+        messagesPerMinute: 30,
+        dailyTokens: 0,
+      },
+      persistent: false,
+    },
+    usage: {
+      prices: {},
+      currency: "USD",
+      retentionDays: 400,
+    },
+    tracing: {
+      enabled: false,
+      headers: {},
+      serviceName: "moltbot-with-lark",
+      sampleRatio: 1,
+    },
+    routing: {
+      providers: [],
+      rules: [],
+      fallbacks: [],
+      contextWindows: {},
+      circuitBreaker: {
+        failureThreshold: 3,
+        resetTimeoutMs: 30000,
+      },
+    },
+    tools: {
+      enabled: false,
+      maxSteps: 5,
+      defaultTools: [],
+      chats: {},
+    },
   };
 }
 
@@ -89,6 +177,7 @@ function mergeConfigs(jsonConfig: JsonConfig): Config {
       encryptKey: process.env.LARK_ENCRYPT_KEY,
       verificationToken: process.env.LARK_VERIFICATION_TOKEN,
       connectionMode: jsonConfig.lark.connectionMode,
+      webhookPath: jsonConfig.lark.webhookPath || "/webhook/event",
     },
     moltbot: {
       apiEndpoint: process.env.MOLTBOT_API_ENDPOINT || "",
@@ -96,6 +185,7 @@ function mergeConfigs(jsonConfig: JsonConfig): Config {
       modelName: jsonConfig.moltbot.modelName,
       temperature: jsonConfig.moltbot.temperature,
       maxTokens: jsonConfig.moltbot.maxTokens,
+      contextWindow: jsonConfig.moltbot.contextWindow,
       streaming: jsonConfig.moltbot.streaming,
     },
     server: {
@@ -108,6 +198,7 @@ function mergeConfigs(jsonConfig: JsonConfig): Config {
     features: {
       messageCards: jsonConfig.features?.messageCards ?? true,
       fileAttachments: jsonConfig.features?.fileAttachments ?? true,
+      cardActions: jsonConfig.features?.cardActions ?? true,
       errorHandling: jsonConfig.features?.errorHandling ?? true,
       retryLogic: jsonConfig.features?.retryLogic ?? true,
     },
@@ -116,5 +207,166 @@ function mergeConfigs(jsonConfig: JsonConfig): Config {
         (process.env.LOG_LEVEL as any) || jsonConfig.logging?.level || "info",
       format: jsonConfig.logging?.format || "json",
     },
+    storage: {
+      type:
+        (process.env.STORAGE_TYPE as any) ||
+        jsonConfig.storage?.type ||
+        "memory",
+      directory:
+        process.env.STORAGE_DIRECTORY ||
+        jsonConfig.storage?.directory ||
+        "./data",
+    },
+    conversation: {
+      maxAgeHours: jsonConfig.conversation?.maxAgeHours ?? 24,
+      summarization: {
+        enabled: jsonConfig.conversation?.summarization?.enabled ?? true,
+        maxTokens: jsonConfig.conversation?.summarization?.maxTokens ?? 500,
+      },
+    },
+    prompts: {
+      default: jsonConfig.prompts?.default,
+      chatTypes: jsonConfig.prompts?.chatTypes ?? {},
+      chats: jsonConfig.prompts?.chats ?? {},
+    },
+    commands: {
+      enabled: jsonConfig.commands?.enabled ?? true,
+      admins: jsonConfig.commands?.admins ?? [],
+      permissions: jsonConfig.commands?.permissions ?? {},
+    },
+    groupChat: {
+      requireMention: jsonConfig.groupChat?.requireMention ?? true,
+      alwaysListen: jsonConfig.groupChat?.alwaysListen ?? [],
+    },
+    attachments: {
+      maxImageBytes: jsonConfig.attachments?.maxImageBytes ?? 5 * 1024 * 1024,
+      imageCacheBytes:
+        jsonConfig.attachments?.imageCacheBytes ?? 50 * 1024 * 1024,
+      maxFileBytes: jsonConfig.attachments?.maxFileBytes ?? 20 * 1024 * 1024,
+      maxFileTokens: jsonConfig.attachments?.maxFileTokens,
+    },
+    transcription: {
+      enabled: jsonConfig.transcription?.enabled ?? false,
+      // Defaults to the chat model provider
+      apiEndpoint:
+        process.env.TRANSCRIPTION_API_ENDPOINT ||
+        process.env.MOLTBOT_API_ENDPOINT ||
+        "",
+      apiKey:
+        process.env.TRANSCRIPTION_API_KEY || process.env.MOLTBOT_API_KEY || "",
+      model: jsonConfig.transcription?.model ?? "whisper-1",
+      language: jsonConfig.transcription?.language,
+      echoTranscript: jsonConfig.transcription?.echoTranscript ?? false,
+      maxAudioBytes:
+        jsonConfig.transcription?.maxAudioBytes ?? 25 * 1024 * 1024,
+      timeoutMs: jsonConfig.transcription?.timeoutMs ?? 60000,
+    },
+    dedupe: {
+      ttlHours: jsonConfig.dedupe?.ttlHours ?? 12,
+      persistent: jsonConfig.dedupe?.persistent ?? false,
+    },
+    queue: {
+      maxDepth: jsonConfig.queue?.maxDepth ?? 5,
+      notifyQueued: jsonConfig.queue?.notifyQueued ?? true,
+    },
+    debounce: {
+      windowMs: jsonConfig.debounce?.windowMs ?? 0,
+      maxWaitMs: jsonConfig.debounce?.maxWaitMs ?? 10000,
+    },
+    concurrency: {
+      maxConcurrent: jsonConfig.concurrency?.maxConcurrent ?? 10,
+      maxQueue: jsonConfig.concurrency?.maxQueue ?? 50,
+      queueTimeoutMs: jsonConfig.concurrency?.queueTimeoutMs ?? 30000,
+    },
+    limits: {
+      user: {
+        messagesPerMinute: jsonConfig.limits?.user?.messagesPerMinute ?? 10,
+        dailyTokens: jsonConfig.limits?.user?.dailyTokens ?? 0,
+      },
+      chat: {
+        messagesPerMinute: jsonConfig.limits?.chat?.messagesPerMinute ?? 30,
+        dailyTokens: jsonConfig.limits?.chat?.dailyTokens ?? 0,
+      },
+      persistent: jsonConfig.limits?.persistent ?? false,
+    },
+    usage: {
+      prices: jsonConfig.usage?.prices ?? {},
+      currency: jsonConfig.usage?.currency ?? "USD",
+      retentionDays: jsonConfig.usage?.retentionDays ?? 400,
+    },
+    tracing: {
+      enabled: jsonConfig.tracing?.enabled ?? false,
+      endpoint: jsonConfig.tracing?.endpoint,
+      headers: jsonConfig.tracing?.headers ?? {},
+      serviceName: jsonConfig.tracing?.serviceName ?? "moltbot-with-lark",
+      sampleRatio: jsonConfig.tracing?.sampleRatio ?? 1,
+    },
+    routing: {
+      providers: (jsonConfig.routing?.providers ?? []).map(
+        ({ apiKeyEnv, ...provider }) => ({
+          ...provider,
+          apiKey:
+            (apiKeyEnv ? process.env[apiKeyEnv] : undefined) ??
+            provider.apiKey ??
+            "",
+          models: provider.models ?? [],
+        }),
+      ),
+      rules: jsonConfig.routing?.rules ?? [],
+      fallbacks: jsonConfig.routing?.fallbacks ?? [],
+      contextWindows: jsonConfig.routing?.contextWindows ?? {},
+      circuitBreaker: {
+        failureThreshold:
+          jsonConfig.routing?.circuitBreaker?.failureThreshold ?? 3,
+        resetTimeoutMs:
+          jsonConfig.routing?.circuitBreaker?.resetTimeoutMs ?? 30000,
+      },
+    },
+    tools: {
+      enabled: jsonConfig.tools?.enabled ?? false,
+      maxSteps: jsonConfig.tools?.maxSteps ?? 5,
+      defaultTools: jsonConfig.tools?.defaultTools ?? [],
+      chats: jsonConfig.tools?.chats ?? {},
+    },
   };
 }
+
+// Config fields holding credentials, matched by name at any depth
+const SECRET_FIELD_PATTERN =
+  /(secret|password|key|token|authorization|cookie|credentials?)$/i;
+
+// Config fields whose values are all masked, such as HTTP headers that may
+// carry credentials under any name
+const MASKED_MAP_FIELDS = new Set(["headers"]);
+
+/**
+ * Copy a configuration with credentials masked, for status output
+ */
+export function maskConfig(config: Config): Record<string, unknown> {
+  return maskSecrets(config) as Record<string, unknown>;
+}
+
+/**
+ * Recursively replace non-empty secret fields with a placeholder
+ */
+function maskSecrets(value: unknown, maskAll: boolean = false): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => maskSecrets(item, maskAll));
+  }
+
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([field, fieldValue]) => [
+        field,
+        (maskAll || SECRET_FIELD_PATTERN.test(field)) &&
+        typeof fieldValue === "string"
+          ? fieldValue
+            ? "********"
+            : ""
+          : maskSecrets(fieldValue, maskAll || MASKED_MAP_FIELDS.has(field)),
+      ]),
+    );
+  }
+
+  return value;
+}
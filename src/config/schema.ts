@@ -1,13 +1,29 @@
 import { z } from "zod";
 
+// Lark connection mode schema
+const ConnectionModeSchema = z.enum(["websocket", "webhook"]);
+
 // Lark configuration schema
-const LarkConfigSchema = z.object({
-  appId: z.string().min(1, "LARK_APP_ID is required"),
-  appSecret: z.string().min(1, "LARK_APP_SECRET is required"),
-  encryptKey: z.string().optional(),
-  verificationToken: z.string().optional(),
-  connectionMode: z.literal("websocket"),
-});
+const LarkConfigSchema = z
+  .object({
+    appId: z.string().min(1, "LARK_APP_ID is required"),
+    appSecret: z.string().min(1, "LARK_APP_SECRET is required"),
+    encryptKey: z.string().optional(),
+    verificationToken: z.string().optional(),
+    connectionMode: ConnectionModeSchema,
+    webhookPath: z.string().startsWith("/").default("/webhook/event"),
+  })
+  .refine(
+    (lark) =>
+      lark.connectionMode !== "webhook" ||
+      !!lark.verificationToken ||
+      !!lark.encryptKey,
+    {
+      message:
+        "LARK_VERIFICATION_TOKEN or LARK_ENCRYPT_KEY is required in webhook mode",
+      path: ["verificationToken"],
+    },
+  );
 
 // Moltbot configuration schema
 const MoltbotConfigSchema = z.object({
@@ -16,9 +32,44 @@ const MoltbotConfigSchema = z.object({
   modelName: z.string().min(1, "Model name is required"),
   temperature: z.number().min(0).max(2).optional(),
   maxTokens: z.number().positive().optional(),
+  contextWindow: z.number().int().positive().optional(),
   streaming: z.literal(true),
 });
 
+// Additional OpenAI-compatible model provider schema
+const ProviderConfigSchema = z.object({
+  name: z.string().min(1),
+  apiEndpoint: z.string().url("Provider apiEndpoint must be a valid URL"),
+  apiKey: z.string().default(""),
+  models: z.array(z.string().min(1)).default([]), // Offered as /model choices
+  contextWindow: z.number().int().positive().optional(), // Of all its models
+});
+
+// Model routing rule schema; every condition that is set must match
+const RoutingRuleSchema = z.object({
+  chatIds: z.array(z.string()).optional(),
+  chatTypes: z.array(z.string()).optional(),
+  senderIds: z.array(z.string()).optional(),
+  messageTypes: z.array(z.string()).optional(), // e.g. "image", "file", "audio"
+  provider: z.string().optional(), // Default: the provider listing the model
+  model: z.string().min(1),
+});
+
+// Circuit breaker schema, one breaker per provider
+const CircuitBreakerConfigSchema = z.object({
+  failureThreshold: z.number().int().positive().default(3), // Consecutive failures
+  resetTimeoutMs: z.number().int().positive().default(30000), // Before a retry
+});
+
+// Model routing configuration schema
+const RoutingConfigSchema = z.object({
+  providers: z.array(ProviderConfigSchema).default([]),
+  rules: z.array(RoutingRuleSchema).default([]),
+  fallbacks: z.array(z.string().min(1)).default([]), // Ordered model choices
+  contextWindows: z.record(z.number().int().positive()).default({}), // By model name
+  circuitBreaker: CircuitBreakerConfigSchema,
+});
+
 // Server configuration schema
 const ServerConfigSchema = z.object({
   port: z.number().int().positive().default(3000),
@@ -29,10 +80,157 @@ const ServerConfigSchema = z.object({
 const FeaturesConfigSchema = z.object({
   messageCards: z.boolean().default(true),
   fileAttachments: z.boolean().default(true),
+  cardActions: z.boolean().default(true),
   errorHandling: z.boolean().default(true),
   retryLogic: z.boolean().default(true),
 });
 
+// Conversation configuration schema
+const ConversationConfigSchema = z.object({
+  maxAgeHours: z.number().positive().default(24),
+  summarization: z.object({
+    enabled: z.boolean().default(true),
+    maxTokens: z.number().int().positive().default(500),
+  }),
+});
+
+// System prompts configuration schema
+const PromptsConfigSchema = z.object({
+  default: z.string().optional(),
+  chatTypes: z
+    .object({
+      p2p: z.string().optional(),
+      group: z.string().optional(),
+    })
+    .default({}),
+  chats: z.record(z.string()).default({}),
+});
+
+// Chat commands configuration schema
+const CommandPermissionSchema = z.enum(["everyone", "p2p", "admin"]);
+
+const CommandsConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  admins: z.array(z.string()).default([]),
+  permissions: z.record(CommandPermissionSchema).default({}),
+});
+
+// Attachments configuration schema
+const AttachmentsConfigSchema = z.object({
+  maxImageBytes: z
+    .number()
+    .int()
+    .positive()
+    .default(5 * 1024 * 1024),
+  imageCacheBytes: z
+    .number()
+    .int()
+    .positive()
+    .default(50 * 1024 * 1024),
+  maxFileBytes: z
+    .number()
+    .int()
+    .positive()
+    .default(20 * 1024 * 1024),
+  maxFileTokens: z.number().int().positive().optional(), // Default: half the prompt budget
+});
+
+// Voice transcription configuration schema
+const TranscriptionConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  apiEndpoint: z.string().url("TRANSCRIPTION_API_ENDPOINT must be a valid URL"),
+  apiKey: z.string(),
+  model: z.string().min(1).default("whisper-1"),
+  language: z.string().optional(),
+  echoTranscript: z.boolean().default(false),
+  maxAudioBytes: z
+    .number()
+    .int()
+    .positive()
+    .default(25 * 1024 * 1024),
+  timeoutMs: z.number().int().positive().default(60000), // Per request
+});
+
+// Event deduplication configuration schema
+const DedupeConfigSchema = z.object({
+  ttlHours: z.number().positive().default(12),
+  persistent: z.boolean().default(false), // Use the configured storage
+});
+
+// Per-chat queue configuration schema
+const QueueConfigSchema = z.object({
+  maxDepth: z.number().int().min(0).default(5), // Messages waiting per chat
+  notifyQueued: z.boolean().default(true),
+});
+
+// Message debounce configuration schema
+const DebounceConfigSchema = z.object({
+  windowMs: z.number().int().min(0).default(0), // 0 disables merging
+  maxWaitMs: z.number().int().positive().default(10000),
+});
+
+// Model call concurrency configuration schema
+const ConcurrencyConfigSchema = z.object({
+  maxConcurrent: z.number().int().positive().default(10),
+  maxQueue: z.number().int().min(0).default(50),
+  queueTimeoutMs: z.number().int().positive().default(30000),
+});
+
+// Rate limit and daily quota of one user or chat
+const UsageLimitSchema = z.object({
+  messagesPerMinute: z.number().min(0), // 0 disables the rate limit
+  dailyTokens: z.number().int().min(0), // 0 disables the quota
+});
+
+// Usage limits configuration schema
+const LimitsConfigSchema = z.object({
+  user: UsageLimitSchema.default({ messagesPerMinute: 10, dailyTokens: 0 }),
+  chat: UsageLimitSchema.default({ messagesPerMinute: 30, dailyTokens: 0 }),
+  persistent: z.boolean().default(false), // Keep daily usage in the configured storage
+});
+
+// Price of a model per million tokens
+const ModelPriceSchema = z.object({
+  prompt: z.number().min(0),
+  completion: z.number().min(0),
+});
+
+// Usage accounting configuration schema
+const UsageConfigSchema = z.object({
+  prices: z.record(ModelPriceSchema).default({}), // By model name
+  currency: z.string().min(1).default("USD"),
+  retentionDays: z.number().int().positive().default(400),
+});
+
+// Tracing configuration schema
+const TracingConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  endpoint: z.string().url().optional(), // OTLP/HTTP traces URL
+  headers: z.record(z.string()).default({}),
+  serviceName: z.string().min(1).default("moltbot-with-lark"),
+  sampleRatio: z.number().min(0).max(1).default(1),
+});
+
+// Tool calling configuration schema
+const ToolsConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  maxSteps: z.number().int().positive().default(5), // Model calls per answer
+  defaultTools: z.array(z.string()).default([]), // Tools of chats not listed
+  chats: z.record(z.array(z.string())).default({}), // Tools per chat ID
+});
+
+// Group chat configuration schema
+const GroupChatConfigSchema = z.object({
+  requireMention: z.boolean().default(true),
+  alwaysListen: z.array(z.string()).default([]),
+});
+
+// Storage configuration schema
+const StorageConfigSchema = z.object({
+  type: z.enum(["memory", "file", "sqlite"]).default("memory"),
+  directory: z.string().min(1).default("./data"),
+});
+
 // Logging configuration schema
 const LoggingConfigSchema = z.object({
   level: z.enum(["error", "warn", "info", "debug"]).default("info"),
@@ -42,12 +240,14 @@ const LoggingConfigSchema = z.object({
 // JSON configuration schema (from config.json)
 const JsonConfigSchema = z.object({
   lark: z.object({
-    connectionMode: z.literal("websocket"),
+    connectionMode: ConnectionModeSchema,
+    webhookPath: z.string().optional(),
   }),
   moltbot: z.object({
     modelName: z.string().min(1),
     temperature: z.number().min(0).max(2).optional(),
     maxTokens: z.number().positive().optional(),
+    contextWindow: z.number().int().positive().optional(),
     streaming: z.literal(true),
   }),
   server: z.object({
@@ -57,6 +257,7 @@ const JsonConfigSchema = z.object({
   features: z.object({
     messageCards: z.boolean().optional(),
     fileAttachments: z.boolean().optional(),
+    cardActions: z.boolean().optional(),
     errorHandling: z.boolean().optional(),
     retryLogic: z.boolean().optional(),
   }),
@@ -64,6 +265,62 @@ const JsonConfigSchema = z.object({
     level: z.enum(["error", "warn", "info", "debug"]).optional(),
     format: z.enum(["json", "text"]).optional(),
   }),
+  storage: z
+    .object({
+      type: z.enum(["memory", "file", "sqlite"]).optional(),
+      directory: z.string().optional(),
+    })
+    .optional(),
+  prompts: PromptsConfigSchema.partial().optional(),
+  commands: CommandsConfigSchema.partial().optional(),
+  groupChat: GroupChatConfigSchema.partial().optional(),
+  attachments: AttachmentsConfigSchema.partial().optional(),
+  dedupe: DedupeConfigSchema.partial().optional(),
+  queue: QueueConfigSchema.partial().optional(),
+  debounce: DebounceConfigSchema.partial().optional(),
+  concurrency: ConcurrencyConfigSchema.partial().optional(),
+  limits: z
+    .object({
+      user: UsageLimitSchema.partial().optional(),
+      chat: UsageLimitSchema.partial().optional(),
+      persistent: z.boolean().optional(),
+    })
+    .optional(),
+  usage: UsageConfigSchema.partial().optional(),
+  routing: z
+    .object({
+      providers: z
+        .array(
+          ProviderConfigSchema.partial({ apiKey: true, models: true }).extend({
+            apiKeyEnv: z.string().optional(), // Env var holding the API key
+          }),
+        )
+        .optional(),
+      rules: z.array(RoutingRuleSchema).optional(),
+      fallbacks: z.array(z.string().min(1)).optional(),
+      contextWindows: z.record(z.number().int().positive()).optional(),
+      circuitBreaker: CircuitBreakerConfigSchema.partial().optional(),
+    })
+    .optional(),
+  tracing: TracingConfigSchema.partial().optional(),
+  tools: ToolsConfigSchema.partial().optional(),
+  transcription: TranscriptionConfigSchema.omit({
+    apiEndpoint: true,
+    apiKey: true,
+  })
+    .partial()
+    .optional(),
+  conversation: z
+    .object({
+      maxAgeHours: z.number().positive().optional(),
+      summarization: z
+        .object({
+          enabled: z.boolean().optional(),
+          maxTokens: z.number().int().positive().optional(),
+        })
+        .optional(),
+    })
+    .optional(),
 });
 
 // Complete configuration schema
@@ -73,6 +330,22 @@ export const ConfigSchema = z.object({
   server: ServerConfigSchema,
   features: FeaturesConfigSchema,
   logging: LoggingConfigSchema,
+  storage: StorageConfigSchema,
+  conversation: ConversationConfigSchema,
+  prompts: PromptsConfigSchema,
+  commands: CommandsConfigSchema,
+  groupChat: GroupChatConfigSchema,
+  attachments: AttachmentsConfigSchema,
+  transcription: TranscriptionConfigSchema,
+  dedupe: DedupeConfigSchema,
+  queue: QueueConfigSchema,
+  debounce: DebounceConfigSchema,
+  concurrency: ConcurrencyConfigSchema,
+  limits: LimitsConfigSchema,
+  usage: UsageConfigSchema,
+  tracing: TracingConfigSchema,
+  routing: RoutingConfigSchema,
+  tools: ToolsConfigSchema,
 });
 
 // Type exports
@@ -81,5 +354,24 @@ export type MoltbotConfig = z.infer<typeof MoltbotConfigSchema>;
 export type ServerConfig = z.infer<typeof ServerConfigSchema>;
 export type FeaturesConfig = z.infer<typeof FeaturesConfigSchema>;
 export type LoggingConfig = z.infer<typeof LoggingConfigSchema>;
+export type StorageConfig = z.infer<typeof StorageConfigSchema>;
+export type ConversationConfig = z.infer<typeof ConversationConfigSchema>;
+export type PromptsConfig = z.infer<typeof PromptsConfigSchema>;
+export type CommandsConfig = z.infer<typeof CommandsConfigSchema>;
+export type GroupChatConfig = z.infer<typeof GroupChatConfigSchema>;
+export type AttachmentsConfig = z.infer<typeof AttachmentsConfigSchema>;
+export type TranscriptionConfig = z.infer<typeof TranscriptionConfigSchema>;
+export type DedupeConfig = z.infer<typeof DedupeConfigSchema>;
+export type QueueConfig = z.infer<typeof QueueConfigSchema>;
+export type DebounceConfig = z.infer<typeof DebounceConfigSchema>;
+export type ConcurrencyConfig = z.infer<typeof ConcurrencyConfigSchema>;
+export type LimitsConfig = z.infer<typeof LimitsConfigSchema>;
+export type UsageConfig = z.infer<typeof UsageConfigSchema>;
+export type TracingConfig = z.infer<typeof TracingConfigSchema>;
+export type ToolsConfig = z.infer<typeof ToolsConfigSchema>;
+export type ProviderConfig = z.infer<typeof ProviderConfigSchema>;
+export type RoutingRule = z.infer<typeof RoutingRuleSchema>;
+export type CircuitBreakerConfig = z.infer<typeof CircuitBreakerConfigSchema>;
+export type RoutingConfig = z.infer<typeof RoutingConfigSchema>;
 export type JsonConfig = z.infer<typeof JsonConfigSchema>;
 export type Config = z.infer<typeof ConfigSchema>;
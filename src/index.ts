@@ -1,37 +1,125 @@
-import { loadConfig, initLogger } from "./config";
+import { randomUUID } from "crypto";
+import { loadConfig, initLogger, maskConfig } from "./config";
 import { getLogger } from "./utils/logger";
 import { LarkWebSocketClient } from "./lark/websocket";
+import { LarkWebhookClient } from "./lark/webhook";
 import { LarkClient } from "./lark/client";
 import { LarkMessageSender } from "./lark/sender";
 import { MoltbotClient } from "./moltbot/client";
+import { TranscriptionClient } from "./moltbot/transcription";
+import { countImages, getMessageText } from "./moltbot/content";
+import { awaitFirstChunk, ModelRouter } from "./moltbot/router";
+import { clockPlugin, ToolRegistry } from "./moltbot/tools";
+import type { ModelRoute } from "./moltbot/router";
 import { StreamProcessor } from "./bridge/processor";
 import { ConversationContextManager } from "./bridge/context";
+import type { ConversationContext } from "./bridge/context";
+import { CardActionRegistry } from "./bridge/actions";
+import { ConversationSummarizer } from "./bridge/summarizer";
+import { SystemPromptResolver } from "./bridge/prompts";
+import { ImageLoader } from "./bridge/images";
+import { FileExtractor } from "./bridge/files";
+import { EventDeduplicator } from "./bridge/dedupe";
+import { ChatWorkQueue } from "./bridge/queue";
+import { MessageCoalescer } from "./bridge/debounce";
+import { UsageLimiter } from "./bridge/limits";
+import type { DailyUsage } from "./bridge/limits";
+import { UsageTracker } from "./bridge/usage";
+import type { UsageRecord, UsageSummary } from "./bridge/usage";
+import type { PromptTarget } from "./bridge/prompts";
+import { CommandRegistry } from "./bridge/commands";
+import type { CommandContext } from "./bridge/commands";
+import { ChatSettingsManager } from "./bridge/settings";
+import type { ChatSettings } from "./bridge/settings";
+import { HttpServer } from "./server/http";
+import { HealthEndpoints } from "./server/health";
+import { createStore, MemoryStore } from "./storage";
+import { estimateMessageTokens, getInputTokenBudget } from "./utils/tokens";
+import { ConcurrencyLimiter } from "./utils/limiter";
+import { metrics, metricsRegistry } from "./utils/metrics";
+import { initTracing, shutdownTracing, withSpan } from "./utils/tracing";
+import { AttachmentError, ValidationError } from "./utils/errors";
 import {
+  mergeMoltbotMessages,
   transformLarkToMoltbot,
   transformMoltbotToLark,
 } from "./bridge/transformer";
 import { parseLarkMessage, shouldProcessMessage } from "./lark/handlers";
-import type { Config } from "./config";
-import type { LarkMessageReceiveEvent } from "./lark/types";
+import { CardActions } from "./lark/types";
+import type { Config, GroupChatConfig, TranscriptionConfig } from "./config";
+import type {
+  MoltbotContentPart,
+  MoltbotMessage,
+  MoltbotRequestOptions,
+  MoltbotResponse,
+  ParsedMessageForMoltbot,
+} from "./moltbot/types";
+import type {
+  ParsedLarkMessage,
+  LarkCardActionEvent,
+  LarkCardActionResponse,
+  LarkEventSource,
+  LarkMessageReceiveEvent,
+} from "./lark/types";
+
+// Longest wait for pending answers on shutdown, within the usual 30 s grace
+// period of orchestrators
+const SHUTDOWN_DRAIN_TIMEOUT_MS = 25000;
+
+/**
+ * Message an answer replies to
+ */
+interface ReplyTarget {
+  messageId: string;
+  inThread: boolean; // Answer inside the thread of the message
+}
 
 /**
  * Main application class
  */
 class MoltbotWithLark {
-  private larkWebSocketClient: LarkWebSocketClient;
+  private larkEventSource: LarkEventSource;
+  private httpServer: HttpServer;
+  private health: HealthEndpoints;
   private larkClient: LarkClient;
   private larkSender: LarkMessageSender;
   private moltbotClient: MoltbotClient;
+  private modelRouter: ModelRouter;
+  private toolRegistry: ToolRegistry;
+  private modelLimiter: ConcurrencyLimiter;
   private conversationManager: ConversationContextManager;
+  private promptResolver: SystemPromptResolver;
+  private imageLoader: ImageLoader;
+  private fileExtractor?: FileExtractor;
+  private transcriber?: TranscriptionClient;
+  private transcription: TranscriptionConfig;
+  private chatSettings: ChatSettingsManager;
+  private commands?: CommandRegistry;
+  private cardActions: CardActionRegistry;
+  private deduplicator: EventDeduplicator;
+  private chatQueue: ChatWorkQueue;
+  private coalescer: MessageCoalescer<ParsedLarkMessage>;
+  private notifyQueued: boolean;
+  private usageLimiter: UsageLimiter;
+  private usageTracker: UsageTracker;
+  private groupChat: GroupChatConfig;
+  private maxOutputTokens?: number; // Reserved from each model's window
+  private botOpenId?: string;
+  // Abort controllers of in-flight streams, keyed by stream ID
+  private activeStreams: Map<string, AbortController> = new Map();
+  // Message events being handled, awaited on shutdown
+  private pendingEvents: Set<Promise<void>> = new Set();
   private isShuttingDown: boolean = false;
 
   constructor(config: Config) {
-    // Initialize logger
+    // Initialize logger and tracing
     initLogger(config.logging);
+    initTracing(config.tracing);
     const logger = getLogger();
 
     logger.info("Initializing Moltbot with Lark application", {
       larkAppId: config.lark.appId,
+      connectionMode: config.lark.connectionMode,
       moltbotModel: config.moltbot.modelName,
       features: config.features,
     });
@@ -41,20 +129,176 @@ class MoltbotWithLark {
     this.larkSender = new LarkMessageSender(this.larkClient, {
       messageCards: config.features.messageCards,
       fileAttachments: config.features.fileAttachments,
+      cardActions: config.features.cardActions,
+    });
+
+    // Initialize model providers behind a shared cap on concurrent calls
+    this.modelLimiter = new ConcurrencyLimiter(config.concurrency);
+    this.modelRouter = new ModelRouter(
+      config.moltbot,
+      config.routing,
+      this.modelLimiter,
+    );
+    this.moltbotClient = this.modelRouter.getDefaultClient();
+
+    // Initialize tools the model may call, enabled per chat
+    this.toolRegistry = new ToolRegistry(config.tools).use(clockPlugin);
+
+    // Initialize redelivered event detection
+    this.deduplicator = new EventDeduplicator({
+      store: config.dedupe.persistent
+        ? createStore<number>(config.storage, "seen_events")
+        : new MemoryStore<number>(),
+      ttlHours: config.dedupe.ttlHours,
     });
 
-    // Initialize Moltbot client
-    this.moltbotClient = new MoltbotClient(config.moltbot);
+    // Initialize merging of rapid messages into one turn
+    this.coalescer = new MessageCoalescer<ParsedLarkMessage>(
+      config.debounce.windowMs,
+      config.debounce.maxWaitMs,
+    );
+
+    // Initialize per-chat ordering of turns
+    this.chatQueue = new ChatWorkQueue(config.queue.maxDepth);
+    this.notifyQueued = config.queue.notifyQueued;
+
+    // Initialize per-user and per-chat rate limits and quotas
+    this.usageLimiter = new UsageLimiter({
+      user: config.limits.user,
+      chat: config.limits.chat,
+      store: config.limits.persistent
+        ? createStore<DailyUsage>(config.storage, "daily_usage")
+        : new MemoryStore<DailyUsage>(),
+    });
 
-    // Initialize conversation context manager
-    this.conversationManager = new ConversationContextManager();
+    // Initialize token usage and cost accounting
+    this.usageTracker = new UsageTracker({
+      store: createStore<UsageRecord>(config.storage, "usage"),
+      prices: config.usage.prices,
+      currency: config.usage.currency,
+      retentionDays: config.usage.retentionDays,
+    });
+
+    // Initialize conversation context manager. History is kept for the
+    // largest model it may be routed to and trimmed per request to the
+    // budget of the routed model
+    this.maxOutputTokens = config.moltbot.maxTokens;
+    const tokenBudget = getInputTokenBudget(
+      config.moltbot.modelName,
+      config.moltbot.contextWindow,
+      config.moltbot.maxTokens,
+    );
+    this.conversationManager = new ConversationContextManager({
+      store: createStore<ConversationContext>(config.storage, "conversations"),
+      tokenBudget: getInputTokenBudget(
+        config.moltbot.modelName,
+        this.modelRouter.getLargestContextWindow(),
+        config.moltbot.maxTokens,
+      ),
+      maxAgeHours: config.conversation.maxAgeHours,
+      summarizer: config.conversation.summarization.enabled
+        ? new ConversationSummarizer(this.moltbotClient, {
+            maxTokens: config.conversation.summarization.maxTokens,
+            onUsage: (chatId, model, usage) =>
+              this.recordUsage({ chatId }, model, usage),
+          })
+        : undefined,
+    });
 
-    // Initialize WebSocket client with message handler
-    this.larkWebSocketClient = new LarkWebSocketClient(
-      config.lark,
-      this.handleLarkMessage.bind(this),
+    // Initialize system prompt resolver
+    this.promptResolver = new SystemPromptResolver(
+      config.prompts,
+      this.larkClient,
     );
 
+    // Initialize image downloads for multimodal input
+    this.imageLoader = new ImageLoader(this.larkClient, {
+      maxImageBytes: config.attachments.maxImageBytes,
+      cacheBytes: config.attachments.imageCacheBytes,
+    });
+
+    if (config.features.fileAttachments) {
+      this.fileExtractor = new FileExtractor(this.larkClient, {
+        maxFileBytes: config.attachments.maxFileBytes,
+        maxTokens:
+          config.attachments.maxFileTokens ?? Math.floor(tokenBudget / 2),
+      });
+    }
+
+    // Initialize voice transcription
+    this.transcription = config.transcription;
+    if (config.transcription.enabled) {
+      this.transcriber = new TranscriptionClient(config.transcription);
+    }
+
+    // Initialize per-chat settings and chat commands
+    this.chatSettings = new ChatSettingsManager(
+      createStore<ChatSettings>(config.storage, "chat_settings"),
+    );
+
+    if (config.commands.enabled) {
+      this.commands = new CommandRegistry({
+        admins: config.commands.admins,
+        permissions: config.commands.permissions,
+      });
+      this.registerCommands();
+    }
+
+    this.groupChat = config.groupChat;
+
+    // Initialize card action handlers
+    this.cardActions = new CardActionRegistry();
+    this.registerCardActions();
+
+    // Initialize the event source for the configured connection mode
+    const eventHandlers = {
+      onMessage: this.handleLarkMessage.bind(this),
+      onCardAction: config.features.cardActions
+        ? this.handleCardAction.bind(this)
+        : undefined,
+    };
+
+    // The HTTP server serves health endpoints in both modes
+    this.httpServer = new HttpServer(config.server);
+
+    if (config.lark.connectionMode === "webhook") {
+      this.larkEventSource = new LarkWebhookClient(
+        config.lark,
+        this.httpServer,
+        eventHandlers,
+      );
+    } else {
+      this.larkEventSource = new LarkWebSocketClient(
+        config.lark,
+        eventHandlers,
+      );
+    }
+
+    // Initialize liveness, readiness and status endpoints
+    const configSummary = maskConfig(config);
+    this.health = new HealthEndpoints({
+      isEventSourceReady: () => this.larkEventSource.isReady(),
+      probeModel: () => this.modelRouter.probe(),
+      getStatus: () => ({
+        conversations: this.conversationManager.getStats(),
+        modelCalls: this.modelLimiter.getStats(),
+        circuits: this.modelRouter.getCircuitStates(),
+        config: configSummary,
+      }),
+    }).register(this.httpServer);
+
+    // Serve Prometheus metrics
+    this.httpServer.route("GET", "/metrics", async () => {
+      metrics.activeConversations.set(
+        this.conversationManager.getStats().totalConversations,
+      );
+      return {
+        status: 200,
+        body: await metricsRegistry.metrics(),
+        headers: { "Content-Type": metricsRegistry.contentType },
+      };
+    });
+
     logger.info("Application initialized successfully");
   }
 
@@ -67,8 +311,14 @@ class MoltbotWithLark {
     try {
       logger.info("Starting Moltbot with Lark application...");
 
-      // Start WebSocket connection
-      await this.larkWebSocketClient.start();
+      // Serve health endpoints while the rest starts up
+      await this.httpServer.start();
+
+      // Needed to recognize mentions of the bot in group chats
+      await this.resolveBotOpenId();
+
+      // Start receiving Lark events
+      await this.larkEventSource.start();
 
       logger.info("Application started successfully");
       logger.info("Listening for Lark messages...");
@@ -99,10 +349,29 @@ class MoltbotWithLark {
 
     this.isShuttingDown = true;
     logger.info("Stopping Moltbot with Lark application...");
+    this.health.markShuttingDown();
 
     try {
-      // Stop WebSocket connection
-      await this.larkWebSocketClient.stop();
+      // Stop receiving Lark events
+      await this.larkEventSource.stop();
+
+      // Answer messages still waiting for their debounce window, and let
+      // running answers finish before the stores close
+      this.coalescer.flushAll();
+      await this.drain(SHUTDOWN_DRAIN_TIMEOUT_MS);
+
+      // Stop serving health endpoints
+      await this.httpServer.stop();
+
+      // Export the remaining spans
+      await shutdownTracing();
+
+      // Flush and close persistent storage
+      this.conversationManager.close();
+      this.chatSettings.close();
+      this.deduplicator.close();
+      this.usageLimiter.close();
+      this.usageTracker.close();
 
       logger.info("Application stopped successfully");
     } catch (error) {
@@ -113,11 +382,58 @@ class MoltbotWithLark {
   }
 
   /**
-   * Handle incoming message from Lark
+   * Wait for message events and queued answers to finish, up to a time limit
+   */
+  private async drain(timeoutMs: number): Promise<void> {
+    const logger = getLogger();
+    let timer: NodeJS.Timeout | undefined;
+
+    const drained = Promise.allSettled(Array.from(this.pendingEvents))
+      .then(() => this.chatQueue.onIdle())
+      .then(() => true);
+    const timedOut = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+
+    const isDrained = await Promise.race([drained, timedOut]);
+    clearTimeout(timer);
+
+    if (!isDrained) {
+      logger.warn("Stopped waiting for pending answers", {
+        pendingEvents: this.pendingEvents.size,
+        activeChats: this.chatQueue.getActiveChats(),
+      });
+    }
+  }
+
+  /**
+   * Handle incoming message from Lark inside its own trace
    */
   private async handleLarkMessage(
     event: LarkMessageReceiveEvent,
   ): Promise<void> {
+    const handling = withSpan(
+      "lark.event",
+      {
+        "lark.event_id": event.header?.event_id,
+        "lark.message_id": event.event.message.message_id,
+        "lark.chat_id": event.event.message.chat_id,
+        "lark.message_type": event.event.message.msg_type,
+      },
+      () => this.handleLarkEvent(event),
+    );
+
+    this.pendingEvents.add(handling);
+    const forget = () => this.pendingEvents.delete(handling);
+    handling.then(forget, forget);
+
+    return handling;
+  }
+
+  /**
+   * Dedupe, filter and queue an incoming message event
+   */
+  private async handleLarkEvent(event: LarkMessageReceiveEvent): Promise<void> {
     const logger = getLogger();
 
     if (this.isShuttingDown) {
@@ -125,62 +441,85 @@ class MoltbotWithLark {
       return;
     }
 
+    // Drop redelivered events before doing any work
+    if (
+      this.deduplicator.isDuplicate([
+        event.header?.event_id && `event:${event.header.event_id}`,
+        `message:${event.event.message.message_id}`,
+      ])
+    ) {
+      logger.info("Dropping duplicate Lark event", {
+        eventId: event.header?.event_id,
+        messageId: event.event.message.message_id,
+      });
+      return;
+    }
+
+    const messageType = event.event.message.msg_type;
+    metrics.larkEventsReceived.inc({ message_type: messageType });
+
     try {
       // Parse Lark message
-      const parsedMessage = parseLarkMessage(event);
+      const parsedMessage = withSpan("lark.parse", {}, () =>
+        parseLarkMessage(event),
+      );
 
       // Check if message should be processed
-      if (!shouldProcessMessage(parsedMessage)) {
+      if (
+        !shouldProcessMessage(parsedMessage, {
+          botOpenId: this.botOpenId,
+          requireMention: this.groupChat.requireMention,
+          alwaysListenChats: this.groupChat.alwaysListen,
+        })
+      ) {
+        metrics.messagesSkipped.inc({
+          message_type: messageType,
+          chat_type: parsedMessage.chatType,
+        });
         return;
       }
 
-      logger.info("Processing message from Lark", {
-        messageId: parsedMessage.messageId,
-        chatId: parsedMessage.chatId,
-        messageType: parsedMessage.messageType,
-      });
-
-      // Transform to Moltbot format
-      const moltbotMessage = transformLarkToMoltbot(parsedMessage);
-
-      // Add to conversation context
-      this.conversationManager.addMessage(parsedMessage.chatId, {
-        role: "user",
-        content: moltbotMessage.text,
-      });
-
-      // Get conversation history
-      const conversationHistory = this.conversationManager.getContext(
-        parsedMessage.chatId,
+      // Rapid messages of one sender become one turn; commands stay alone
+      const isCommand = !!this.commands?.isCommand(
+        transformLarkToMoltbot(parsedMessage, this.botOpenId).text,
       );
-
-      // Build messages for Moltbot
-      const messages = [
-        ...conversationHistory,
-        {
-          role: "user",
-          content: moltbotMessage.text,
-        },
-      ];
-
-      // Send to Moltbot
-      if (this.moltbotClient.isStreamingEnabled()) {
-        await this.handleStreamingResponse(
-          parsedMessage.chatId,
-          parsedMessage.messageId,
-          messages,
-        );
-      } else {
-        await this.handleNonStreamingResponse(
-          parsedMessage.chatId,
-          parsedMessage.messageId,
-          messages,
-        );
+      const batch = await this.coalescer.add(
+        `${parsedMessage.chatId}:${parsedMessage.senderId}`,
+        parsedMessage,
+        isCommand,
+      );
+      if (batch.length === 0) {
+        // Merged into the turn of a later message
+        metrics.larkEventsProcessed.inc({
+          message_type: messageType,
+          outcome: "merged",
+        });
+        return;
       }
 
-      // Add assistant response to conversation context
-      // This will be done after receiving the response
+      // Turns of one chat are processed in order
+      await this.chatQueue.run(
+        parsedMessage.chatId,
+        () => this.processMessages(batch),
+        this.notifyQueued
+          ? (ahead) =>
+              this.larkSender.sendTextMessage(
+                parsedMessage.chatId,
+                `⏳ Your message is queued behind ${ahead} earlier ${ahead === 1 ? "message" : "messages"} and will be answered in order.`,
+                parsedMessage.messageId,
+                !!parsedMessage.threadId,
+              )
+          : undefined,
+      );
+      metrics.larkEventsProcessed.inc({
+        message_type: messageType,
+        outcome: "success",
+      });
     } catch (error) {
+      metrics.larkEventsProcessed.inc({
+        message_type: messageType,
+        outcome: "error",
+      });
       logger.error("Error handling Lark message", {
         error: error instanceof Error ? error.message : String(error),
         stack: error instanceof Error ? error.stack : undefined,
@@ -191,24 +530,629 @@ class MoltbotWithLark {
         event.event.message.chat_id,
         error instanceof Error ? error : new Error(String(error)),
         event.event.message.message_id,
+        !!event.event.message.thread_id,
+      );
+    }
+  }
+
+  /**
+   * Answer a batch of accepted messages from one sender as a single turn
+   */
+  private async processMessages(batch: ParsedLarkMessage[]): Promise<void> {
+    const logger = getLogger();
+    const lastMessage = batch[batch.length - 1];
+    const { chatId } = lastMessage;
+
+    logger.info("Processing message from Lark", {
+      messageId: lastMessage.messageId,
+      chatId,
+      messageType: lastMessage.messageType,
+      batchSize: batch.length,
+    });
+
+    // Answers quote the latest message of the batch
+    const replyTo = toMessageReplyTarget(lastMessage);
+
+    // Voice turns are checked against the limits before they are downloaded
+    // and transcribed; typed commands never count against them
+    const hasVoice = batch.some((parsedMessage) => !!parsedMessage.audioKey);
+    if (hasVoice) {
+      this.usageLimiter.consume({ chatId, senderId: lastMessage.senderId });
+    }
+
+    // Transform to Moltbot format
+    const moltbotMessages: ParsedMessageForMoltbot[] = [];
+    for (const parsedMessage of batch) {
+      const moltbotMessage = withSpan(
+        "bridge.transform",
+        { "lark.message_id": parsedMessage.messageId },
+        () => transformLarkToMoltbot(parsedMessage, this.botOpenId),
+      );
+
+      // Voice messages are answered as if the transcript had been typed
+      if (parsedMessage.audioKey) {
+        moltbotMessage.text = await this.transcribeVoiceMessage(
+          { chatId, senderId: parsedMessage.senderId },
+          parsedMessage.audioKey,
+          toMessageReplyTarget(parsedMessage),
+        );
+      }
+
+      moltbotMessages.push(moltbotMessage);
+    }
+    const moltbotMessage = mergeMoltbotMessages(moltbotMessages);
+
+    // Chat commands are answered directly and never reach the model
+    if (this.commands?.isCommand(moltbotMessage.text)) {
+      const reply = await this.commands.execute(moltbotMessage.text, {
+        chatId,
+        chatType: lastMessage.chatType,
+        senderId: lastMessage.senderId,
+        messageId: lastMessage.messageId,
+        inThread: replyTo.inThread,
+      });
+      await this.larkSender.sendTextMessage(
+        chatId,
+        reply,
+        replyTo.messageId,
+        replyTo.inThread,
       );
+      return;
     }
+
+    // Rejected turns are kept out of the history
+    if (!hasVoice) {
+      this.usageLimiter.consume({ chatId, senderId: lastMessage.senderId });
+    }
+
+    // Add to conversation context; images are kept as a placeholder there,
+    // so their bytes are only sent with this turn
+    const content = await this.buildUserContent(moltbotMessage);
+    this.conversationManager.addMessage(chatId, {
+      role: "user",
+      content: getMessageText(content),
+    });
+
+    // Answer from the conversation history
+    await this.respond(
+      {
+        chatId,
+        chatType: lastMessage.chatType,
+        senderId: lastMessage.senderId,
+      },
+      replyTo,
+      Array.from(
+        new Set([
+          ...batch.map((message) => message.messageType),
+          ...(moltbotMessage.attachments || []).map((item) => item.type),
+        ]),
+      ),
+      content,
+    );
+  }
+
+  /**
+   * Download and transcribe a voice message, optionally echoing the transcript
+   */
+  private async transcribeVoiceMessage(
+    target: PromptTarget,
+    audioKey: string,
+    replyTo: ReplyTarget,
+  ): Promise<string> {
+    if (!this.transcriber) {
+      throw new AttachmentError(
+        "Voice messages are not supported yet. Please send text instead.",
+      );
+    }
+
+    const audio = await this.larkClient.downloadMessageResource(
+      replyTo.messageId,
+      audioKey,
+      "file",
+      this.transcription.maxAudioBytes,
+    );
+    const { text: transcript, usage } = await this.transcriber.transcribe(
+      audio.data,
+    );
+    this.recordUsage(target, this.transcription.model, usage);
+
+    if (!transcript) {
+      throw new AttachmentError(
+        "I couldn't make out any words in that voice message.",
+      );
+    }
+
+    if (this.transcription.echoTranscript) {
+      await this.larkSender.sendTextMessage(
+        target.chatId,
+        `🎙️ ${transcript}`,
+        replyTo.messageId,
+        replyTo.inThread,
+      );
+    }
+
+    return transcript;
+  }
+
+  /**
+   * Build the model input of a user message
+   *
+   * Attached images are downloaded as image parts; the text of attached
+   * files is added ahead of the message text.
+   */
+  private async buildUserContent(
+    message: ParsedMessageForMoltbot,
+  ): Promise<MoltbotMessage["content"]> {
+    const attachments = message.attachments || [];
+    const images = attachments.filter(
+      (attachment) => attachment.type === "image",
+    );
+    const files = attachments.filter(
+      (attachment) => attachment.type === "file",
+    );
+
+    // Without file support, files are skipped unless nothing else was sent
+    if (files.length > 0 && !this.fileExtractor && !message.text) {
+      throw new AttachmentError("Reading files is turned off for this bot.");
+    }
+
+    const textBlocks: string[] = [];
+    if (this.fileExtractor) {
+      for (const file of files) {
+        textBlocks.push(await this.fileExtractor.extract(file.messageId, file));
+      }
+    }
+    if (message.text) {
+      textBlocks.push(message.text);
+    }
+
+    const text = textBlocks.join("\n\n");
+    if (images.length === 0) {
+      return text;
+    }
+
+    const parts: MoltbotContentPart[] = [];
+    if (text) {
+      parts.push({ type: "text", text });
+    }
+    for (const image of images) {
+      parts.push(await this.imageLoader.load(image.messageId, image.key));
+    }
+
+    return parts;
+  }
+
+  /**
+   * Handle card button callback from Lark
+   */
+  private async handleCardAction(
+    event: LarkCardActionEvent,
+  ): Promise<LarkCardActionResponse | undefined> {
+    if (this.isShuttingDown) {
+      return undefined;
+    }
+
+    return withSpan(
+      "lark.card_action",
+      { "lark.chat_id": event.event.context.open_chat_id },
+      () => this.cardActions.dispatch(event),
+    );
+  }
+
+  /**
+   * Register the built-in card actions
+   */
+  private registerCardActions(): void {
+    this.cardActions
+      .register(CardActions.STOP, async ({ value }) => {
+        const controller = this.activeStreams.get(value.streamId);
+        if (!controller) {
+          return { toast: "This answer has already finished" };
+        }
+
+        controller.abort();
+        return { toast: "Stopped" };
+      })
+      .register(
+        CardActions.REGENERATE,
+        async ({ chatId, operatorId, value }) => {
+          this.respondInBackground(
+            { chatId, senderId: operatorId },
+            toReplyTarget(value),
+            () => {
+              // Only the latest answer can be replaced in the history
+              this.conversationManager.removeLastMessage(chatId, "assistant");
+            },
+          );
+          return { toast: "Regenerating..." };
+        },
+      )
+      .register(CardActions.CONTINUE, async ({ chatId, operatorId, value }) => {
+        this.respondInBackground(
+          { chatId, senderId: operatorId },
+          toReplyTarget(value),
+          () => {
+            this.conversationManager.addMessage(chatId, {
+              role: "user",
+              content: "Continue.",
+            });
+          },
+        );
+        return { toast: "Continuing..." };
+      })
+      .register(CardActions.CLEAR_CONTEXT, async ({ chatId }) => {
+        this.conversationManager.clearContext(chatId);
+        return { toast: "Conversation context cleared" };
+      });
+  }
+
+  /**
+   * Register the built-in chat commands
+   */
+  private registerCommands(): void {
+    const commands = this.commands!;
+
+    commands
+      .register({
+        name: "help",
+        description: "List available commands",
+        handler: async ({ senderId, chatType }) =>
+          [
+            "Available commands:",
+            ...commands
+              .listCommands(senderId, chatType)
+              .map(
+                (command) =>
+                  `${commands.formatUsage(command)} - ${command.description}`,
+              ),
+          ].join("\n"),
+      })
+      .register({
+        name: "reset",
+        description: "Clear the conversation context of this chat",
+        handler: async ({ chatId }) => {
+          this.conversationManager.clearContext(chatId);
+          return "🧹 Conversation context cleared.";
+        },
+      })
+      .register({
+        name: "model",
+        description: 'Show or set the model of this chat ("default" resets)',
+        args: [{ name: "name", type: "string" }],
+        permission: "p2p",
+        handler: async ({ chatId }, { name }) => {
+          if (name === undefined) {
+            const model = this.chatSettings.get(chatId).model;
+            return [
+              model
+                ? `Current model: ${model}`
+                : `Current model: ${this.moltbotClient.getModelName()}, unless a routing rule picks another`,
+              `Available models: ${this.modelRouter.listModels().join(", ")}`,
+            ].join("\n");
+          }
+
+          const model = name === "default" ? undefined : String(name);
+          if (model) {
+            this.modelRouter.validateModel(model);
+          }
+          this.chatSettings.update(chatId, { model });
+          return `✅ Model set to ${model || this.moltbotClient.getModelName()}.`;
+        },
+      })
+      .register({
+        name: "temperature",
+        description: "Show or set the sampling temperature of this chat",
+        args: [{ name: "value", type: "number", min: 0, max: 2 }],
+        permission: "p2p",
+        handler: async ({ chatId }, { value }) => {
+          if (value === undefined) {
+            const temperature = this.chatSettings.get(chatId).temperature;
+            return `Current temperature: ${temperature ?? "default"}`;
+          }
+
+          this.chatSettings.update(chatId, { temperature: Number(value) });
+          return `✅ Temperature set to ${value}.`;
+        },
+      })
+      .register({
+        name: "system",
+        description:
+          'Show or set the system prompt of this chat ("reset" restores the configured one)',
+        args: [{ name: "prompt", type: "text" }],
+        permission: "p2p",
+        handler: async ({ chatId }, { prompt }) => {
+          if (prompt === undefined) {
+            const systemPrompt = this.chatSettings.get(chatId).systemPrompt;
+            return systemPrompt
+              ? `Current system prompt:\n${systemPrompt}`
+              : "This chat uses the configured system prompt.";
+          }
+
+          const systemPrompt = prompt === "reset" ? undefined : String(prompt);
+          this.chatSettings.update(chatId, { systemPrompt });
+          return systemPrompt
+            ? "✅ System prompt updated."
+            : "✅ System prompt reset.";
+        },
+      })
+      .register({
+        name: "stats",
+        description: "Show conversation statistics",
+        permission: "admin",
+        handler: async () => {
+          const stats = this.conversationManager.getStats();
+          const modelStats = this.modelLimiter.getStats();
+          const formatTime = (timestamp?: number) =>
+            timestamp ? new Date(timestamp).toISOString() : "-";
+
+          return [
+            "📊 Conversation statistics",
+            `Conversations: ${stats.totalConversations}`,
+            `Messages: ${stats.totalMessages}`,
+            `Oldest activity: ${formatTime(stats.oldestConversation?.lastActivity)}`,
+            `Newest activity: ${formatTime(stats.newestConversation?.lastActivity)}`,
+            "",
+            "🤖 Model calls",
+            `Active: ${modelStats.active}/${modelStats.maxConcurrent}`,
+            `Queued: ${modelStats.queued}/${modelStats.maxQueue}`,
+            `Average wait: ${modelStats.averageWaitMs} ms`,
+            `Longest current wait: ${modelStats.oldestWaitMs} ms`,
+            `Rejected: ${modelStats.rejected}, timed out: ${modelStats.timedOut}`,
+          ].join("\n");
+        },
+      })
+      .register({
+        name: "usage",
+        description:
+          'Show token usage and costs by "day" or "month", or "export" a month as CSV',
+        args: [
+          { name: "period", type: "string" },
+          { name: "month", type: "string" },
+        ],
+        permission: "admin",
+        handler: async (context, { period = "day", month }) => {
+          if (period === "export") {
+            return this.exportUsage(context, month);
+          }
+          if (month !== undefined) {
+            throw new ValidationError("<month> is only used with export");
+          }
+          if (period !== "day" && period !== "month") {
+            throw new ValidationError(
+              '<period> must be "day", "month" or "export"',
+              "period",
+            );
+          }
+
+          // The last 14 days or the last 12 months
+          const since = new Date();
+          if (period === "day") {
+            since.setUTCDate(since.getUTCDate() - 13);
+          } else {
+            since.setUTCDate(1);
+            since.setUTCMonth(since.getUTCMonth() - 11);
+          }
+          const summaries = this.usageTracker.summarize(period, {
+            since: since.toISOString().slice(0, period === "day" ? 10 : 7),
+          });
+
+          return [
+            `💰 Usage by ${period}`,
+            ...(summaries.length > 0
+              ? summaries.map((summary) => this.formatUsageSummary(summary))
+              : ["No usage recorded yet."]),
+          ].join("\n");
+        },
+      });
+  }
+
+  /**
+   * Send the usage records of a month as a CSV file
+   */
+  private async exportUsage(
+    context: CommandContext,
+    month: string | number = new Date().toISOString().slice(0, 7),
+  ): Promise<string> {
+    // The records name every chat and sender, so permission overrides of
+    // /usage don't open them up
+    if (!this.commands?.isAdmin(context.senderId)) {
+      return "🚫 Only admins can export usage records.";
+    }
+
+    const period = String(month);
+    if (!/^\d{4}-\d{2}$/.test(period)) {
+      throw new ValidationError("<month> must look like 2024-05", "month");
+    }
+
+    const csv = this.usageTracker.toCsv({ since: period, until: period });
+    await this.larkSender.sendFile(
+      context.chatId,
+      `usage-${period}.csv`,
+      Buffer.from(csv, "utf8"),
+      context.messageId,
+      !!context.inThread,
+    );
+
+    return `📄 Usage records of ${period} exported.`;
+  }
+
+  /**
+   * Format one line of the /usage report
+   */
+  private formatUsageSummary(summary: UsageSummary): string {
+    const { currency } = this.usageTracker;
+    const tokens = summary.promptTokens + summary.completionTokens;
+    const unpriced =
+      summary.unpricedRequests > 0
+        ? ` (${summary.unpricedRequests} unpriced)`
+        : "";
+
+    return `${summary.period}: ${summary.requests} requests, ${tokens.toLocaleString("en-US")} tokens (${summary.promptTokens.toLocaleString("en-US")} prompt / ${summary.completionTokens.toLocaleString("en-US")} completion), ${summary.cost.toFixed(2)} ${currency}${unpriced}`;
+  }
+
+  /**
+   * Answer the latest turn of a chat from its conversation history
+   *
+   * `messageTypes` lists the message and attachment types of the turn, used
+   * by routing rules; images anywhere in the history sent count as well.
+   * `content` replaces the latest user message of the history, which holds
+   * placeholders instead of the images of the turn.
+   */
+  private async respond(
+    target: PromptTarget,
+    replyTo: ReplyTarget,
+    messageTypes?: string[],
+    content?: MoltbotMessage["content"],
+  ): Promise<void> {
+    const { chatId } = target;
+    const settings = this.chatSettings.get(chatId);
+
+    // Route first, as the routed model sets the token budget. Earlier turns
+    // may carry images too, which only a vision model can read
+    const sentTypes = new Set(messageTypes);
+    if (
+      this.conversationManager
+        .getContext(chatId)
+        .some((message) => countImages(message.content) > 0)
+    ) {
+      sentTypes.add("image");
+    }
+    const route = this.modelRouter.route({
+      ...target,
+      chatType:
+        target.chatType || (await this.promptResolver.lookupChatType(chatId)),
+      messageTypes: Array.from(sentTypes),
+      model: settings.model,
+    });
+    const tokenBudget = getInputTokenBudget(
+      route.model,
+      route.contextWindow,
+      this.maxOutputTokens,
+    );
+
+    const messages = await withSpan(
+      "context.fetch",
+      { "lark.chat_id": chatId },
+      async (span) => {
+        const systemPrompt = await this.promptResolver.resolve(
+          target,
+          settings.systemPrompt,
+        );
+        // The system prompt shares the token budget with the history, as do
+        // the images of the turn, which the history holds as placeholders
+        const imageTokens = content
+          ? estimateMessageTokens({ role: "user", content }) -
+            estimateMessageTokens({
+              role: "user",
+              content: getMessageText(content),
+            })
+          : 0;
+        const history = this.conversationManager.getContext(
+          chatId,
+          (systemPrompt ? estimateMessageTokens(systemPrompt) : 0) +
+            Math.max(imageTokens, 0),
+          tokenBudget,
+        );
+        span.setAttribute("context.message_count", history.length);
+
+        const latest = history
+          .map((message) => message.role)
+          .lastIndexOf("user");
+        if (content && latest >= 0) {
+          history[latest] = { ...history[latest], content };
+        }
+
+        return systemPrompt ? [systemPrompt, ...history] : history;
+      },
+    );
+    const tools = this.toolRegistry.getTools(target);
+    const options: Partial<MoltbotRequestOptions> = {
+      model: route.model,
+      temperature: settings.temperature,
+      tools,
+      maxSteps: tools ? this.toolRegistry.getMaxSteps() : undefined,
+    };
+
+    if (route.client.isStreamingEnabled()) {
+      await this.handleStreamingResponse(
+        target,
+        replyTo,
+        messages,
+        route,
+        options,
+      );
+    } else {
+      await this.handleNonStreamingResponse(
+        target,
+        replyTo,
+        messages,
+        route,
+        options,
+      );
+    }
+  }
+
+  /**
+   * Answer without blocking the caller, reporting failures to the chat
+   *
+   * The answer waits in the chat queue; `prepare` updates the history once
+   * it is its turn.
+   */
+  private respondInBackground(
+    target: PromptTarget,
+    replyTo: ReplyTarget,
+    prepare?: () => void,
+  ): void {
+    this.chatQueue
+      .run(target.chatId, async () => {
+        this.usageLimiter.consume(target);
+        prepare?.();
+        await this.respond(target, replyTo);
+      })
+      .catch(async (error) => {
+        getLogger().error("Error answering in background", {
+          chatId: target.chatId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        await this.larkSender.sendErrorMessage(
+          target.chatId,
+          error instanceof Error ? error : new Error(String(error)),
+          replyTo.messageId,
+          replyTo.inThread,
+        );
+      });
   }
 
   /**
    * Handle streaming response from Moltbot
    */
   private async handleStreamingResponse(
-    chatId: string,
-    messageId: string,
-    messages: any[],
+    target: PromptTarget,
+    replyTo: ReplyTarget,
+    messages: MoltbotMessage[],
+    route: ModelRoute,
+    options: Partial<MoltbotRequestOptions> = {},
   ): Promise<void> {
     const logger = getLogger();
+    const { chatId } = target;
+    const streamId = randomUUID();
+    const abortController = new AbortController();
+    this.activeStreams.set(streamId, abortController);
 
     try {
-      // Send streaming request to Moltbot
-      const streamResponse =
-        await this.moltbotClient.sendStreamRequest(messages);
+      // Send streaming request to Moltbot, failing over until the first chunk
+      const { result: streamResponse, route: served } =
+        await this.modelRouter.withFailover(route, async (candidate) =>
+          awaitFirstChunk(
+            await candidate.client.sendStreamRequest(messages, {
+              ...options,
+              model: candidate.model,
+              abortSignal: abortController.signal,
+            }),
+          ),
+        );
+      const note = getFallbackNote(route, served);
 
       // Create stream processor
       const processor = new StreamProcessor(
@@ -216,20 +1160,33 @@ class MoltbotWithLark {
         async (chatId: string, content: string, isComplete: boolean) => {
           await this.larkSender.sendStreamUpdate({
             chatId,
-            messageId: isComplete ? undefined : messageId,
+            streamId,
+            messageId: replyTo.messageId,
+            replyInThread: replyTo.inThread,
             content,
             isComplete,
+            note,
           });
         },
         {
           chunkThreshold: 100,
           timeThreshold: 1000,
           sendPartialUpdates: true,
+          abortSignal: abortController.signal,
+          describeTool: (toolName) => this.toolRegistry.describe(toolName),
         },
       );
 
       // Process stream
       const fullResponse = await processor.process(streamResponse);
+      // Stopped streams may never report their usage
+      if (!abortController.signal.aborted) {
+        this.recordUsage(
+          target,
+          served.model,
+          await streamResponse.usage.catch(() => undefined),
+        );
+      }
 
       // Transform response to Lark format
 
@@ -247,7 +1204,15 @@ class MoltbotWithLark {
       logger.error("Error handling streaming response", {
         error: error instanceof Error ? error.message : String(error),
       });
+      // Close the model stream, which holds a concurrency slot until it ends
+      abortController.abort();
+      await this.larkSender.failStream(
+        streamId,
+        "The answer was interrupted by an error",
+      );
       throw error;
+    } finally {
+      this.activeStreams.delete(streamId);
     }
   }
 
@@ -255,23 +1220,35 @@ class MoltbotWithLark {
    * Handle non-streaming response from Moltbot
    */
   private async handleNonStreamingResponse(
-    chatId: string,
-    messageId: string,
-    messages: any[],
+    target: PromptTarget,
+    replyTo: ReplyTarget,
+    messages: MoltbotMessage[],
+    route: ModelRoute,
+    options: Partial<MoltbotRequestOptions> = {},
   ): Promise<void> {
     const logger = getLogger();
+    const { chatId } = target;
 
     try {
       // Send non-streaming request to Moltbot
-      const response = await this.moltbotClient.sendRequest(messages);
+      const { result: response, route: served } =
+        await this.modelRouter.withFailover(route, (candidate) =>
+          candidate.client.sendRequest(messages, {
+            ...options,
+            model: candidate.model,
+          }),
+        );
+      this.recordUsage(target, served.model, response.usage);
+      const note = getFallbackNote(route, served);
 
       // Transform response to Lark format
 
       // Send response to Lark
       await this.larkSender.sendTextMessage(
         chatId,
-        response.text,
-        messageId,
+        note ? `${response.text}\n\n_${note}_` : response.text,
+        replyTo.messageId,
+        replyTo.inThread,
       );
 
       // Add assistant response to conversation context
@@ -292,6 +1269,58 @@ class MoltbotWithLark {
     }
   }
 
+  /**
+   * Record the tokens of a model call and count them against the daily quotas
+   *
+   * Answers, summaries and transcriptions are all recorded; the usage of an
+   * answer includes each of its tool steps.
+   */
+  private recordUsage(
+    target: PromptTarget,
+    model: string | undefined,
+    usage?: MoltbotResponse["usage"],
+  ): void {
+    if (!usage) {
+      return;
+    }
+
+    const modelName = model || this.moltbotClient.getModelName();
+    metrics.tokens.inc(
+      { model: modelName, type: "prompt" },
+      usage.promptTokens || 0,
+    );
+    metrics.tokens.inc(
+      { model: modelName, type: "completion" },
+      usage.completionTokens || 0,
+    );
+
+    this.usageLimiter.recordUsage(target, usage.totalTokens);
+    this.usageTracker.record({
+      timestamp: Date.now(),
+      model: modelName,
+      chatId: target.chatId,
+      senderId: target.senderId,
+      promptTokens: usage.promptTokens || 0,
+      completionTokens: usage.completionTokens || 0,
+    });
+  }
+
+  /**
+   * Look up the open ID of the bot, leaving it unknown on failure
+   */
+  private async resolveBotOpenId(): Promise<void> {
+    const logger = getLogger();
+
+    try {
+      this.botOpenId = await this.larkClient.getBotOpenId();
+      logger.info("Resolved bot identity", { botOpenId: this.botOpenId });
+    } catch (error) {
+      logger.warn("Could not resolve bot identity, any mention counts", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   /**
    * Setup graceful shutdown handlers
    */
@@ -340,9 +1369,20 @@ class MoltbotWithLark {
     setInterval(
       () => {
         const cleaned = this.conversationManager.cleanupExpiredConversations();
-        if (cleaned > 0) {
+        const expiredEvents = this.deduplicator.cleanup();
+        const expiredLimits = this.usageLimiter.cleanup();
+        const expiredUsage = this.usageTracker.cleanup();
+        if (
+          cleaned > 0 ||
+          expiredEvents > 0 ||
+          expiredLimits > 0 ||
+          expiredUsage > 0
+        ) {
           logger.info("Periodic cleanup completed", {
             cleanedConversations: cleaned,
+            expiredEvents,
+            expiredLimits,
+            expiredUsage,
           });
         }
       },
@@ -353,6 +1393,40 @@ class MoltbotWithLark {
   }
 }
 
+/**
+ * Reply target quoting a received message
+ */
+function toMessageReplyTarget(message: ParsedLarkMessage): ReplyTarget {
+  return {
+    messageId: message.messageId,
+    inThread: !!message.threadId,
+  };
+}
+
+/**
+ * Read the reply target carried in a card button value
+ */
+function toReplyTarget(value: Record<string, any>): ReplyTarget {
+  return {
+    messageId: value.messageId,
+    inThread: !!value.replyInThread,
+  };
+}
+
+/**
+ * Note naming the fallback model that served an answer, if any
+ */
+function getFallbackNote(
+  route: ModelRoute,
+  served: ModelRoute,
+): string | undefined {
+  if (served.provider === route.provider && served.model === route.model) {
+    return undefined;
+  }
+
+  return `Answered by ${served.provider}/${served.model}, ${route.provider}/${route.model} is unavailable`;
+}
+
 /**
  * Main entry point
  */
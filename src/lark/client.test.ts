@@ -0,0 +1,81 @@
+import { LarkMessageError } from "../utils/errors";
+import { LarkClient } from "./client";
+
+/**
+ * Create a client whose message API calls are recorded
+ */
+function createClient(data: { message_id?: string } = { message_id: "om_2" }) {
+  const client = new LarkClient();
+  const api = {
+    create: jest.fn(async () => ({ code: 0, data })),
+    reply: jest.fn(async () => ({ code: 0, data })),
+  };
+  (client as unknown as { client: { im: { message: typeof api } } }).client = {
+    im: { message: api },
+  };
+
+  return { client, api };
+}
+
+describe("LarkClient", () => {
+  beforeAll(() => {
+    process.env.LARK_APP_ID = "cli_test";
+    process.env.LARK_APP_SECRET = "secret";
+  });
+
+  afterAll(() => {
+    delete process.env.LARK_APP_ID;
+    delete process.env.LARK_APP_SECRET;
+  });
+
+  it("answers through the reply API with an idempotency key", async () => {
+    const { client, api } = createClient();
+
+    await client.sendTextMessage("oc_1", "hi", "om_1", true, "uuid-1");
+
+    expect(api.create).not.toHaveBeenCalled();
+    expect(api.reply).toHaveBeenCalledWith({
+      data: {
+        msg_type: "text",
+        content: JSON.stringify({ text: "hi" }),
+        reply_in_thread: true,
+        uuid: "uuid-1",
+      },
+      path: { message_id: "om_1" },
+    });
+  });
+
+  it("creates a new message when there is nothing to reply to", async () => {
+    const { client, api } = createClient();
+
+    await expect(
+      client.sendCardMessage("oc_1", { elements: [] }),
+    ).resolves.toBe("om_2");
+
+    expect(api.reply).not.toHaveBeenCalled();
+    expect(api.create).toHaveBeenCalledWith({
+      data: {
+        receive_id: "oc_1",
+        msg_type: "interactive",
+        content: JSON.stringify({ elements: [] }),
+        uuid: expect.any(String),
+      },
+      params: { receive_id_type: "chat_id" },
+    });
+  });
+
+  it("fails when Lark rejects the message or returns no ID", async () => {
+    const { client, api } = createClient();
+    api.reply.mockResolvedValueOnce({
+      code: 230002,
+      msg: "Bot not in chat",
+    } as never);
+
+    await expect(
+      client.sendTextMessage("oc_1", "hi", "om_1"),
+    ).rejects.toBeInstanceOf(LarkMessageError);
+    await expect(
+      createClient({}).client.sendCardMessage("oc_1", { elements: [] }),
+    ).rejects.toBeInstanceOf(LarkMessageError);
+  });
+});
@@ -1,5 +1,14 @@
+import { randomUUID } from "crypto";
 import * as Lark from "@larksuiteoapi/node-sdk";
 import { getLogger, createChildLogger } from "../utils/logger";
+import { AttachmentError, LarkMessageError } from "../utils/errors";
+import { metrics } from "../utils/metrics";
+import { LarkMessageType } from "./types";
+import type {
+  LarkChatInfo,
+  LarkMessageResource,
+  LarkSendMessage,
+} from "./types";
 
 const logger = getLogger();
 
@@ -20,11 +29,15 @@ export class LarkClient {
 
   /**
    * Send a text message to Lark
+   *
+   * Pass the same `uuid` when retrying so Lark drops duplicate sends.
    */
   async sendTextMessage(
     chatId: string,
     text: string,
     replyToMessageId?: string,
+    replyInThread: boolean = false,
+    uuid: string = randomUUID(),
   ): Promise<void> {
     const childLogger = createChildLogger({ chatId });
 
@@ -32,22 +45,22 @@ export class LarkClient {
       childLogger.info("Sending text message", {
         textLength: text.length,
         replyToMessageId,
+        replyInThread,
       });
 
-      await this.client.im.message.create({
-        data: {
-          receive_id: chatId,
-          msg_type: "text",
-          content: JSON.stringify({ text }),
-          uuid: replyToMessageId,
-        },
-        params: {
-          receive_id_type: "chat_id",
-        },
+      await this.sendMessage({
+        receive_id: chatId,
+        receive_id_type: "chat_id",
+        msg_type: LarkMessageType.TEXT,
+        content: JSON.stringify({ text }),
+        reply_in_message_id: replyToMessageId,
+        reply_in_thread: replyInThread,
+        uuid,
       });
 
       childLogger.debug("Text message sent successfully");
     } catch (error) {
+      metrics.larkSendFailures.inc({ operation: "sendTextMessage" });
       childLogger.error("Failed to send text message", {
         error: error instanceof Error ? error.message : String(error),
         textLength: text.length,
@@ -58,37 +71,364 @@ export class LarkClient {
 
   /**
    * Send a card message to Lark
+   *
+   * Returns the ID of the created message so the card can be patched later.
    */
   async sendCardMessage(
     chatId: string,
     card: any,
     replyToMessageId?: string,
-  ): Promise<void> {
+    replyInThread: boolean = false,
+    uuid: string = randomUUID(),
+  ): Promise<string> {
     const childLogger = createChildLogger({ chatId });
 
     try {
       childLogger.info("Sending card message", {
         replyToMessageId,
+        replyInThread,
+      });
+
+      const messageId = await this.sendMessage({
+        receive_id: chatId,
+        receive_id_type: "chat_id",
+        msg_type: LarkMessageType.INTERACTIVE,
+        content: JSON.stringify(card),
+        reply_in_message_id: replyToMessageId,
+        reply_in_thread: replyInThread,
+        uuid,
+      });
+
+      if (!messageId) {
+        throw new LarkMessageError(
+          "Card message was not created: no message_id returned",
+        );
+      }
+
+      childLogger.debug("Card message sent successfully", { messageId });
+
+      return messageId;
+    } catch (error) {
+      metrics.larkSendFailures.inc({ operation: "sendCardMessage" });
+      childLogger.error("Failed to send card message", {
+        error: error instanceof Error ? error.message : String(error),
       });
+      throw error;
+    }
+  }
+
+  /**
+   * Upload a file and return its file key
+   */
+  async uploadFile(fileName: string, data: Buffer): Promise<string> {
+    const childLogger = createChildLogger({ fileName });
 
-      await this.client.im.message.create({
+    try {
+      childLogger.info("Uploading file", { size: data.length });
+
+      const response = await this.client.im.file.create({
+        data: {
+          file_type: "stream",
+          file_name: fileName,
+          file: data,
+        },
+      });
+
+      if (!response?.file_key) {
+        throw new LarkMessageError(
+          "File was not uploaded: no file_key returned",
+        );
+      }
+
+      childLogger.debug("File uploaded successfully", {
+        fileKey: response.file_key,
+      });
+
+      return response.file_key;
+    } catch (error) {
+      metrics.larkSendFailures.inc({ operation: "uploadFile" });
+      childLogger.error("Failed to upload file", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Send an uploaded file to Lark
+   *
+   * Pass the same `uuid` when retrying so Lark drops duplicate sends.
+   */
+  async sendFileMessage(
+    chatId: string,
+    fileKey: string,
+    replyToMessageId?: string,
+    replyInThread: boolean = false,
+    uuid: string = randomUUID(),
+  ): Promise<void> {
+    const childLogger = createChildLogger({ chatId });
+
+    try {
+      childLogger.info("Sending file message", {
+        fileKey,
+        replyToMessageId,
+        replyInThread,
+      });
+
+      await this.sendMessage({
+        receive_id: chatId,
+        receive_id_type: "chat_id",
+        msg_type: LarkMessageType.FILE,
+        content: JSON.stringify({ file_key: fileKey }),
+        reply_in_message_id: replyToMessageId,
+        reply_in_thread: replyInThread,
+        uuid,
+      });
+
+      childLogger.debug("File message sent successfully");
+    } catch (error) {
+      metrics.larkSendFailures.inc({ operation: "sendFileMessage" });
+      childLogger.error("Failed to send file message", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the content of a card message that was sent earlier
+   */
+  async patchCardMessage(messageId: string, card: any): Promise<void> {
+    const childLogger = createChildLogger({ messageId });
+
+    try {
+      childLogger.debug("Patching card message");
+
+      const response = await this.client.im.message.patch({
         data: {
-          receive_id: chatId,
-          msg_type: "interactive",
           content: JSON.stringify(card),
-          uuid: replyToMessageId,
         },
+        path: {
+          message_id: messageId,
+        },
+      });
+
+      if (response.code !== undefined && response.code !== 0) {
+        throw new LarkMessageError(
+          `Failed to patch card message: ${response.msg} (code ${response.code})`,
+        );
+      }
+
+      childLogger.debug("Card message patched successfully");
+    } catch (error) {
+      metrics.larkSendFailures.inc({ operation: "patchCardMessage" });
+      childLogger.error("Failed to patch card message", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Download an image or file attached to a message
+   *
+   * Fails with an AttachmentError once the resource exceeds maxBytes.
+   */
+  async downloadMessageResource(
+    messageId: string,
+    fileKey: string,
+    type: "image" | "file",
+    maxBytes: number,
+  ): Promise<LarkMessageResource> {
+    const childLogger = createChildLogger({ messageId, fileKey });
+    const tooLarge = () =>
+      new AttachmentError(
+        `The ${type} is too large (limit ${formatBytes(maxBytes)}).`,
+      );
+
+    try {
+      const response = await this.client.im.messageResource.get({
         params: {
-          receive_id_type: "chat_id",
+          type,
+        },
+        path: {
+          message_id: messageId,
+          file_key: fileKey,
         },
       });
 
-      childLogger.debug("Card message sent successfully");
+      const headers = response.headers || {};
+      if (Number(headers["content-length"]) > maxBytes) {
+        throw tooLarge();
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      for await (const chunk of response.getReadableStream()) {
+        size += chunk.length;
+        if (size > maxBytes) {
+          throw tooLarge();
+        }
+        chunks.push(Buffer.from(chunk));
+      }
+
+      childLogger.debug("Message resource downloaded", { type, size });
+
+      return {
+        data: Buffer.concat(chunks),
+        mimeType: headers["content-type"],
+      };
     } catch (error) {
-      childLogger.error("Failed to send card message", {
+      childLogger.error("Failed to download message resource", {
+        type,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the open ID of this bot
+   */
+  async getBotOpenId(): Promise<string | undefined> {
+    try {
+      const response = await this.client.request<{
+        code?: number;
+        msg?: string;
+        bot?: { open_id?: string };
+      }>({
+        method: "GET",
+        url: "/open-apis/bot/v3/info",
+      });
+
+      if (response.code !== undefined && response.code !== 0) {
+        throw new LarkMessageError(
+          `Failed to get bot info: ${response.msg} (code ${response.code})`,
+        );
+      }
+
+      return response.bot?.open_id;
+    } catch (error) {
+      logger.error("Failed to get bot info", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the name and mode (p2p, group or topic) of a chat
+   */
+  async getChatInfo(chatId: string): Promise<LarkChatInfo> {
+    const childLogger = createChildLogger({ chatId });
+
+    try {
+      const response = await this.client.im.chat.get({
+        path: {
+          chat_id: chatId,
+        },
+      });
+
+      if (response.code !== undefined && response.code !== 0) {
+        throw new LarkMessageError(
+          `Failed to get chat info: ${response.msg} (code ${response.code})`,
+        );
+      }
+
+      return {
+        name: response.data?.name,
+        chatMode: response.data?.chat_mode,
+      };
+    } catch (error) {
+      childLogger.error("Failed to get chat info", {
         error: error instanceof Error ? error.message : String(error),
       });
       throw error;
     }
   }
+
+  /**
+   * Get the display name of a user by open ID
+   */
+  async getUserName(openId: string): Promise<string | undefined> {
+    const childLogger = createChildLogger({ openId });
+
+    try {
+      const response = await this.client.contact.user.get({
+        path: {
+          user_id: openId,
+        },
+        params: {
+          user_id_type: "open_id",
+        },
+      });
+
+      if (response.code !== undefined && response.code !== 0) {
+        throw new LarkMessageError(
+          `Failed to get user info: ${response.msg} (code ${response.code})`,
+        );
+      }
+
+      return response.data?.user?.name;
+    } catch (error) {
+      childLogger.error("Failed to get user name", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Send a message, as a reply when `reply_in_message_id` is set
+   *
+   * Replies quote the original message in the chat. Returns the ID of the
+   * sent message.
+   */
+  private async sendMessage(
+    message: LarkSendMessage,
+  ): Promise<string | undefined> {
+    const response = message.reply_in_message_id
+      ? await this.client.im.message.reply({
+          data: {
+            msg_type: message.msg_type,
+            content: message.content,
+            reply_in_thread: message.reply_in_thread,
+            uuid: message.uuid,
+          },
+          path: {
+            message_id: message.reply_in_message_id,
+          },
+        })
+      : await this.client.im.message.create({
+          data: {
+            receive_id: message.receive_id,
+            msg_type: message.msg_type,
+            content: message.content,
+            uuid: message.uuid,
+          },
+          params: {
+            receive_id_type: message.receive_id_type,
+          },
+        });
+
+    if (response.code !== undefined && response.code !== 0) {
+      throw new LarkMessageError(
+        `Failed to send message: ${response.msg} (code ${response.code})`,
+      );
+    }
+
+    return response.data?.message_id;
+  }
+}
+
+/**
+ * Format a byte count for user-facing messages
+ */
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    return `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`;
+  }
+
+  return `${Math.round(bytes / 1024)} KB`;
 }
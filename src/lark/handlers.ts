@@ -8,6 +8,15 @@ import type {
 
 const logger = getLogger();
 
+/**
+ * Options for filtering incoming messages
+ */
+export interface MessageFilterOptions {
+  botOpenId?: string; // Open ID of this bot, used to detect mentions
+  requireMention?: boolean; // Only answer group messages that mention the bot
+  alwaysListenChats?: string[]; // Group chats answered without a mention
+}
+
 /**
  * Parse Lark message content
  */
@@ -26,6 +35,8 @@ export function parseLarkMessage(
     let postContent: any;
     let imageKey: string | undefined;
     let fileKey: string | undefined;
+    let fileName: string | undefined;
+    let audioKey: string | undefined;
 
     const content = JSON.parse(message.content);
 
@@ -44,6 +55,11 @@ export function parseLarkMessage(
 
       case "file":
         fileKey = content.file_key;
+        fileName = content.file_name;
+        break;
+
+      case "audio":
+        audioKey = content.file_key;
         break;
 
       default:
@@ -55,6 +71,7 @@ export function parseLarkMessage(
     const parsedMessage: ParsedLarkMessage = {
       messageId: message.message_id,
       chatId: message.chat_id,
+      chatType: message.chat_type,
       senderId: sender.sender_id.open_id,
       senderType: sender.sender_type,
       messageType: message.msg_type as LarkMessageType,
@@ -62,7 +79,10 @@ export function parseLarkMessage(
       postContent,
       imageKey,
       fileKey,
+      fileName,
+      audioKey,
       mentions: message.mentions,
+      threadId: message.thread_id,
       timestamp: Date.now(),
     };
 
@@ -72,7 +92,9 @@ export function parseLarkMessage(
       hasPost: !!postContent,
       hasImage: !!imageKey,
       hasFile: !!fileKey,
+      hasAudio: !!audioKey,
       mentionCount: message.mentions?.length || 0,
+      inThread: !!message.thread_id,
     });
 
     return parsedMessage;
@@ -90,7 +112,10 @@ export function parseLarkMessage(
 /**
  * Check if message should be processed
  */
-export function shouldProcessMessage(message: ParsedLarkMessage): boolean {
+export function shouldProcessMessage(
+  message: ParsedLarkMessage,
+  options: MessageFilterOptions = {},
+): boolean {
   // Skip messages from bots
   if (message.senderType === "bot") {
     logger.debug("Skipping message from bot", {
@@ -105,7 +130,8 @@ export function shouldProcessMessage(message: ParsedLarkMessage): boolean {
     !message.textContent &&
     !message.postContent &&
     !message.imageKey &&
-    !message.fileKey
+    !message.fileKey &&
+    !message.audioKey
   ) {
     logger.debug("Skipping message without content", {
       messageId: message.messageId,
@@ -113,9 +139,41 @@ export function shouldProcessMessage(message: ParsedLarkMessage): boolean {
     return false;
   }
 
+  // In group chats, only answer when addressed unless the chat always listens
+  if (
+    message.chatType !== "p2p" &&
+    options.requireMention !== false &&
+    !options.alwaysListenChats?.includes(message.chatId) &&
+    !isBotMentioned(message, options.botOpenId)
+  ) {
+    logger.debug("Skipping group message without bot mention", {
+      messageId: message.messageId,
+      chatId: message.chatId,
+    });
+    return false;
+  }
+
   return true;
 }
 
+/**
+ * Check if a message mentions the bot
+ *
+ * When the bot's open ID is unknown, any mention counts.
+ */
+export function isBotMentioned(
+  message: ParsedLarkMessage,
+  botOpenId?: string,
+): boolean {
+  const mentions = message.mentions || [];
+
+  if (!botOpenId) {
+    return mentions.length > 0;
+  }
+
+  return mentions.some((mention) => mention.id?.open_id === botOpenId);
+}
+
 /**
  * Format error message for Lark
  */
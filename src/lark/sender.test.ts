@@ -0,0 +1,67 @@
+import { LarkMessageSender } from "./sender";
+import type { LarkClient } from "./client";
+
+function createSender() {
+  const larkClient = {
+    sendCardMessage: jest.fn(async () => "om_card"),
+    patchCardMessage: jest.fn(async () => undefined),
+  };
+  const sender = new LarkMessageSender(larkClient as unknown as LarkClient, {
+    messageCards: true,
+    fileAttachments: false,
+    cardActions: true,
+  });
+
+  return { larkClient, sender };
+}
+
+const update = {
+  chatId: "oc_1",
+  streamId: "stream_1",
+  messageId: "om_1",
+  content: "Partial answer",
+  isComplete: false,
+};
+
+describe("LarkMessageSender.failStream", () => {
+  it("marks the card of a failed stream and forgets the stream", async () => {
+    const { larkClient, sender } = createSender();
+
+    await sender.sendStreamUpdate(update);
+    await sender.failStream("stream_1", "Interrupted");
+
+    expect(larkClient.patchCardMessage).toHaveBeenCalledTimes(1);
+    const [messageId, card] = (larkClient.patchCardMessage.mock.calls[0] ||
+      []) as unknown as [string, any];
+    expect(messageId).toBe("om_card");
+    expect(card.header.template).toBe("red");
+    expect(JSON.stringify(card.elements)).toContain("Partial answer");
+    expect(JSON.stringify(card.elements)).toContain("⚠️ Interrupted");
+    expect(JSON.stringify(card.elements)).not.toContain("Generating");
+    expect(card.elements.some((element: any) => element.tag === "action")).toBe(
+      false,
+    );
+
+    await sender.failStream("stream_1", "Interrupted");
+    expect(larkClient.patchCardMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it("does nothing for streams without a card", async () => {
+    const { larkClient, sender } = createSender();
+
+    await sender.sendStreamUpdate({ ...update, isComplete: true });
+    await sender.failStream("stream_1", "Interrupted");
+
+    expect(larkClient.patchCardMessage).not.toHaveBeenCalled();
+  });
+
+  it("doesn't throw when the card can't be patched", async () => {
+    const { larkClient, sender } = createSender();
+    larkClient.patchCardMessage.mockRejectedValue(new Error("Forbidden"));
+
+    await sender.sendStreamUpdate(update);
+    await expect(
+      sender.failStream("stream_1", "Interrupted"),
+    ).resolves.toBeUndefined();
+  });
+});
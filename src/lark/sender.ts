@@ -1,7 +1,14 @@
+import { randomUUID } from "crypto";
 import { getLogger, createChildLogger } from "../utils/logger";
 import { retry } from "../utils/retry";
+import { withSpan } from "../utils/tracing";
 import { LarkClient } from "./client";
-import type { LarkStreamUpdate } from "./types";
+import { CardActions } from "./types";
+import type {
+  LarkCardElement,
+  LarkMessageCard,
+  LarkStreamUpdate,
+} from "./types";
 
 const logger = getLogger();
 
@@ -9,16 +16,25 @@ const logger = getLogger();
  * Lark message sender with retry logic
  */
 export class LarkMessageSender {
+  // Card message ID and latest update of each in-flight stream, keyed by
+  // stream ID
+  private streamMessages: Map<
+    string,
+    { messageId: string; update: LarkStreamUpdate }
+  > = new Map();
+
   constructor(
     private larkClient: LarkClient,
     private features: {
       messageCards: boolean;
       fileAttachments: boolean;
+      cardActions: boolean;
     },
   ) {
     logger.info("Lark message sender initialized", {
       messageCards: features.messageCards,
       fileAttachments: features.fileAttachments,
+      cardActions: features.cardActions,
     });
   }
 
@@ -29,28 +45,46 @@ export class LarkMessageSender {
     chatId: string,
     text: string,
     replyToMessageId?: string,
+    replyInThread: boolean = false,
   ): Promise<void> {
-    const childLogger = createChildLogger({ chatId });
+    return withSpan(
+      "lark.sendTextMessage",
+      { "lark.chat_id": chatId },
+      async () => {
+        const childLogger = createChildLogger({ chatId });
 
-    try {
-      await retry(
-        () => this.larkClient.sendTextMessage(chatId, text, replyToMessageId),
-        {
-          maxAttempts: 3,
-        },
-      );
+        try {
+          // One idempotency key for all attempts of this message
+          const uuid = randomUUID();
 
-      childLogger.info("Text message sent successfully", {
-        textLength: text.length,
-        replyToMessageId,
-      });
-    } catch (error) {
-      childLogger.error("Failed to send text message", {
-        error: error instanceof Error ? error.message : String(error),
-        textLength: text.length,
-      });
-      throw error;
-    }
+          await retry(
+            () =>
+              this.larkClient.sendTextMessage(
+                chatId,
+                text,
+                replyToMessageId,
+                replyInThread,
+                uuid,
+              ),
+            {
+              maxAttempts: 3,
+            },
+            "lark.sendTextMessage",
+          );
+
+          childLogger.info("Text message sent successfully", {
+            textLength: text.length,
+            replyToMessageId,
+          });
+        } catch (error) {
+          childLogger.error("Failed to send text message", {
+            error: error instanceof Error ? error.message : String(error),
+            textLength: text.length,
+          });
+          throw error;
+        }
+      },
+    );
   }
 
   /**
@@ -60,96 +94,377 @@ export class LarkMessageSender {
     chatId: string,
     card: any,
     replyToMessageId?: string,
-  ): Promise<void> {
-    const childLogger = createChildLogger({ chatId });
+    replyInThread: boolean = false,
+  ): Promise<string> {
+    return withSpan(
+      "lark.sendCardMessage",
+      { "lark.chat_id": chatId },
+      async () => {
+        const childLogger = createChildLogger({ chatId });
+
+        try {
+          const uuid = randomUUID();
+          const messageId = await retry(
+            () =>
+              this.larkClient.sendCardMessage(
+                chatId,
+                card,
+                replyToMessageId,
+                replyInThread,
+                uuid,
+              ),
+            {
+              maxAttempts: 3,
+            },
+            "lark.sendCardMessage",
+          );
+
+          childLogger.info("Card message sent successfully", {
+            replyToMessageId,
+            messageId,
+          });
+
+          return messageId;
+        } catch (error) {
+          childLogger.error("Failed to send card message", {
+            error: error instanceof Error ? error.message : String(error),
+          });
+          throw error;
+        }
+      },
+    );
+  }
+
+  /**
+   * Send a streaming update to Lark
+   *
+   * The first update of a stream creates a card, later updates patch that
+   * same card in place and the final update marks it as done.
+   */
+  async sendStreamUpdate(update: LarkStreamUpdate): Promise<void> {
+    return withSpan(
+      "lark.sendStreamUpdate",
+      {
+        "lark.chat_id": update.chatId,
+        "lark.stream_id": update.streamId,
+        "lark.stream_complete": update.isComplete,
+      },
+      async () => {
+        const childLogger = createChildLogger({
+          chatId: update.chatId,
+          streamId: update.streamId,
+        });
+
+        try {
+          if (!this.features.messageCards) {
+            // Text messages cannot be patched, so only the final answer is sent
+            if (!update.isComplete) {
+              return;
+            }
+
+            const uuid = randomUUID();
+            const text = update.note
+              ? `${update.content}\n\n_${update.note}_`
+              : update.content;
+            await retry(
+              () =>
+                this.larkClient.sendTextMessage(
+                  update.chatId,
+                  text,
+                  update.messageId,
+                  update.replyInThread,
+                  uuid,
+                ),
+              {
+                maxAttempts: 3,
+              },
+              "lark.sendTextMessage",
+            );
+
+            childLogger.debug("Text update sent", {
+              contentLength: update.content.length,
+            });
+            return;
+          }
+
+          const card = this.buildStreamCard(update);
+          const cardMessageId = this.streamMessages.get(
+            update.streamId,
+          )?.messageId;
+
+          if (cardMessageId) {
+            await retry(
+              () => this.larkClient.patchCardMessage(cardMessageId, card),
+              {
+                maxAttempts: 3,
+              },
+              "lark.patchCardMessage",
+            );
+            if (!update.isComplete) {
+              this.streamMessages.set(update.streamId, {
+                messageId: cardMessageId,
+                update,
+              });
+            }
+
+            childLogger.debug("Stream card patched", {
+              cardMessageId,
+              isComplete: update.isComplete,
+              contentLength: update.content.length,
+            });
+          } else {
+            const uuid = randomUUID();
+            const createdMessageId = await retry(
+              () =>
+                this.larkClient.sendCardMessage(
+                  update.chatId,
+                  card,
+                  update.messageId,
+                  update.replyInThread,
+                  uuid,
+                ),
+              {
+                maxAttempts: 3,
+              },
+              "lark.sendCardMessage",
+            );
+
+            if (!update.isComplete) {
+              this.streamMessages.set(update.streamId, {
+                messageId: createdMessageId,
+                update,
+              });
+            }
 
+            childLogger.debug("Stream card created", {
+              cardMessageId: createdMessageId,
+              isComplete: update.isComplete,
+              contentLength: update.content.length,
+            });
+          }
+        } catch (error) {
+          childLogger.error("Failed to send stream update", {
+            error: error instanceof Error ? error.message : String(error),
+            isComplete: update.isComplete,
+          });
+          throw error;
+        } finally {
+          if (update.isComplete) {
+            this.streamMessages.delete(update.streamId);
+          }
+        }
+      },
+    );
+  }
+
+  /**
+   * End a stream that failed, marking its card as failed and forgetting it
+   *
+   * Nothing is sent when no card exists yet; the caller still reports the
+   * error itself. Failures are logged rather than thrown, so they don't hide
+   * the error of the stream.
+   */
+  async failStream(streamId: string, error: string): Promise<void> {
+    const stream = this.streamMessages.get(streamId);
+    if (!stream) {
+      return;
+    }
+    this.streamMessages.delete(streamId);
+
+    const card = this.buildStreamCard({
+      ...stream.update,
+      isComplete: true,
+      error,
+    });
     try {
       await retry(
-        () => this.larkClient.sendCardMessage(chatId, card, replyToMessageId),
+        () => this.larkClient.patchCardMessage(stream.messageId, card),
         {
           maxAttempts: 3,
         },
+        "lark.patchCardMessage",
       );
-
-      childLogger.info("Card message sent successfully", {
-        replyToMessageId,
-      });
-    } catch (error) {
-      childLogger.error("Failed to send card message", {
-        error: error instanceof Error ? error.message : String(error),
+    } catch (patchError) {
+      logger.warn("Failed to mark stream card as failed", {
+        streamId,
+        error:
+          patchError instanceof Error ? patchError.message : String(patchError),
       });
-      throw error;
     }
   }
 
   /**
-   * Send a streaming update to Lark
+   * Build the card used to render a streaming answer
    */
-  async sendStreamUpdate(update: LarkStreamUpdate): Promise<void> {
-    const childLogger = createChildLogger({
-      chatId: update.chatId,
-    });
+  private buildStreamCard(update: LarkStreamUpdate): LarkMessageCard {
+    const elements: LarkCardElement[] = [
+      {
+        tag: "div",
+        text: {
+          tag: "lark_md",
+          content: update.content,
+        },
+      },
+    ];
 
-    try {
-      if (this.features.messageCards && !update.isComplete) {
-        // Send as card for partial updates
-        const card = {
-          config: {
-            wide_screen_mode: true,
-          },
-          header: {
-            title: {
-              tag: "plain_text",
-              content: "AI Response",
-            },
+    if (!update.isComplete) {
+      elements.push({
+        tag: "note",
+        elements: [
+          {
+            tag: "plain_text",
+            content: "⏳ Generating...",
           },
-          elements: [
-            {
-              tag: "div",
-              text: {
-                tag: "lark_md",
-                content: update.content,
-              },
-            },
-          ],
-        };
+        ],
+      });
+    }
 
-        await retry(
-          () => this.larkClient.sendCardMessage(update.chatId, card),
+    if (update.note) {
+      elements.push({
+        tag: "note",
+        elements: [
           {
-            maxAttempts: 3,
+            tag: "plain_text",
+            content: update.note,
           },
-        );
+        ],
+      });
+    }
 
-        childLogger.debug("Partial card update sent", {
-          contentLength: update.content.length,
-        });
-      } else {
-        // Send as text for complete updates or if cards are disabled
-        await retry(
-          () =>
-            this.larkClient.sendTextMessage(
-              update.chatId,
-              update.content,
-              update.messageId,
-            ),
+    if (update.error) {
+      elements.push({
+        tag: "note",
+        elements: [
           {
-            maxAttempts: 3,
+            tag: "plain_text",
+            content: `⚠️ ${update.error}`,
           },
-        );
+        ],
+      });
+    }
 
-        childLogger.debug("Text update sent", {
-          isComplete: update.isComplete,
-          contentLength: update.content.length,
-        });
-      }
-    } catch (error) {
-      childLogger.error("Failed to send stream update", {
-        error: error instanceof Error ? error.message : String(error),
-        isComplete: update.isComplete,
+    if (this.features.cardActions && !update.error) {
+      elements.push({
+        tag: "action",
+        actions: update.isComplete
+          ? [
+              this.buildActionButton(
+                "🔄 Regenerate",
+                CardActions.REGENERATE,
+                update,
+              ),
+              this.buildActionButton(
+                "➡️ Continue",
+                CardActions.CONTINUE,
+                update,
+              ),
+              this.buildActionButton(
+                "🧹 Clear context",
+                CardActions.CLEAR_CONTEXT,
+                update,
+              ),
+            ]
+          : [this.buildActionButton("⏹ Stop", CardActions.STOP, update)],
       });
-      throw error;
     }
+
+    return {
+      config: {
+        wide_screen_mode: true,
+        update_multi: true,
+      },
+      header: {
+        title: {
+          tag: "plain_text",
+          content: "AI Response",
+        },
+        template: update.error ? "red" : update.isComplete ? "green" : "blue",
+      },
+      elements,
+    };
+  }
+
+  /**
+   * Build a button that triggers a card action for a stream
+   */
+  private buildActionButton(
+    text: string,
+    action: string,
+    update: LarkStreamUpdate,
+  ): LarkCardElement {
+    return {
+      tag: "button",
+      text: {
+        tag: "plain_text",
+        content: text,
+      },
+      type: "default",
+      value: {
+        action,
+        chatId: update.chatId,
+        streamId: update.streamId,
+        messageId: update.messageId,
+        replyInThread: !!update.replyInThread,
+      },
+    };
+  }
+
+  /**
+   * Upload a file and send it to Lark
+   */
+  async sendFile(
+    chatId: string,
+    fileName: string,
+    data: Buffer,
+    replyToMessageId?: string,
+    replyInThread: boolean = false,
+  ): Promise<void> {
+    return withSpan(
+      "lark.sendFile",
+      { "lark.chat_id": chatId, "lark.file_name": fileName },
+      async () => {
+        const childLogger = createChildLogger({ chatId });
+
+        try {
+          const fileKey = await retry(
+            () => this.larkClient.uploadFile(fileName, data),
+            {
+              maxAttempts: 3,
+            },
+            "lark.uploadFile",
+          );
+
+          // One idempotency key for all attempts of this message
+          const uuid = randomUUID();
+
+          await retry(
+            () =>
+              this.larkClient.sendFileMessage(
+                chatId,
+                fileKey,
+                replyToMessageId,
+                replyInThread,
+                uuid,
+              ),
+            {
+              maxAttempts: 3,
+            },
+            "lark.sendFileMessage",
+          );
+
+          childLogger.info("File sent successfully", {
+            fileName,
+            size: data.length,
+          });
+        } catch (error) {
+          childLogger.error("Failed to send file", {
+            error: error instanceof Error ? error.message : String(error),
+            fileName,
+          });
+          throw error;
+        }
+      },
+    );
   }
 
   /**
@@ -159,33 +474,45 @@ export class LarkMessageSender {
     chatId: string,
     error: Error,
     replyToMessageId?: string,
+    replyInThread: boolean = false,
   ): Promise<void> {
-    const childLogger = createChildLogger({ chatId });
+    return withSpan(
+      "lark.sendErrorMessage",
+      { "lark.chat_id": chatId },
+      async () => {
+        const childLogger = createChildLogger({ chatId });
 
-    try {
-      const errorMessage = `❌ ${error.message}`;
+        try {
+          const errorMessage = `❌ ${error.message}`;
+          const uuid = randomUUID();
 
-      await retry(
-        () =>
-          this.larkClient.sendTextMessage(
-            chatId,
-            errorMessage,
-            replyToMessageId,
-          ),
-        {
-          maxAttempts: 3,
-        },
-      );
+          await retry(
+            () =>
+              this.larkClient.sendTextMessage(
+                chatId,
+                errorMessage,
+                replyToMessageId,
+                replyInThread,
+                uuid,
+              ),
+            {
+              maxAttempts: 3,
+            },
+            "lark.sendTextMessage",
+          );
 
-      childLogger.info("Error message sent successfully", {
-        errorMessage: error.message,
-      });
-    } catch (error) {
-      childLogger.error("Failed to send error message", {
-        error: error instanceof Error ? error.message : String(error),
-        originalError: error instanceof Error ? error.message : String(error),
-      });
-      // Don't throw here to avoid infinite loops
-    }
+          childLogger.info("Error message sent successfully", {
+            errorMessage: error.message,
+          });
+        } catch (error) {
+          childLogger.error("Failed to send error message", {
+            error: error instanceof Error ? error.message : String(error),
+            originalError:
+              error instanceof Error ? error.message : String(error),
+          });
+          // Don't throw here to avoid infinite loops
+        }
+      },
+    );
   }
 }
@@ -67,8 +67,8 @@ export interface LarkReplyTo {
 }
 
 export interface LarkMention {
-  id: string;
-  id_type: string;
+  key: string; // Placeholder in the text, e.g. "@_user_1"
+  id: LarkSenderId;
   name: string;
   tenant_key: string;
 }
@@ -93,6 +93,21 @@ export interface LarkMessageReceiveEventData {
   message: LarkMessage;
 }
 
+// Handlers for the Lark events the bridge subscribes to
+export interface LarkEventHandlers {
+  onMessage: (event: LarkMessageReceiveEvent) => Promise<void>;
+  onCardAction?: (
+    event: LarkCardActionEvent,
+  ) => Promise<LarkCardActionResponse | undefined>;
+}
+
+// Source of Lark events (WebSocket long connection or HTTP webhook)
+export interface LarkEventSource {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  isReady(): boolean;
+}
+
 // Lark message card structure
 export interface LarkMessageCard {
   config?: LarkCardConfig;
@@ -102,6 +117,7 @@ export interface LarkMessageCard {
 
 export interface LarkCardConfig {
   wide_screen_mode?: boolean;
+  update_multi?: boolean;
 }
 
 export interface LarkCardHeader {
@@ -125,26 +141,63 @@ export interface LarkCardElement {
   [key: string]: any;
 }
 
-// Lark interactive card action
+// Built-in actions of card buttons, sent back in `value.action`
+export const CardActions = {
+  REGENERATE: "regenerate",
+  CONTINUE: "continue",
+  STOP: "stop",
+  CLEAR_CONTEXT: "clear_context",
+} as const;
+
+// Lark interactive card action (card.action.trigger)
 export interface LarkCardActionEvent {
   schema: string;
   header: LarkEventHeader;
+  event: LarkCardActionEventData;
+}
+
+export interface LarkCardActionEventData {
+  operator: LarkSenderId;
+  token: string;
   action: LarkCardAction;
+  context: LarkCardActionContext;
 }
 
 export interface LarkCardAction {
   value: any;
-  action_value?: any;
-  token: string;
-  action_tag: string;
-  trigger_id: string;
-  operator_id: LarkSenderId;
+  tag: string;
+  option?: string;
+  name?: string;
+}
+
+export interface LarkCardActionContext {
+  open_message_id: string;
+  open_chat_id: string;
+}
+
+// Response to a card action, shown to the user who clicked
+export interface LarkCardActionResponse {
+  toast?: {
+    type: "info" | "success" | "warning" | "error";
+    content: string;
+  };
+  card?: {
+    type: "raw";
+    data: LarkMessageCard;
+  };
+}
+
+// Chat information from the chat API
+export interface LarkChatInfo {
+  name?: string;
+  chatMode?: string; // "p2p", "group" or "topic"
 }
 
 // Parsed message for internal use
 export interface ParsedLarkMessage {
   messageId: string;
   chatId: string;
+  chatType: string; // "p2p" or "group"
   senderId: string;
   senderType: string;
   messageType: LarkMessageType;
@@ -152,23 +205,38 @@ export interface ParsedLarkMessage {
   postContent?: LarkPostContent;
   imageKey?: string;
   fileKey?: string;
+  fileName?: string;
+  audioKey?: string;
   mentions?: LarkMention[];
+  threadId?: string; // Set when the message was posted in a thread
   timestamp: number;
 }
 
+// Downloaded image or file of a message
+export interface LarkMessageResource {
+  data: Buffer;
+  mimeType?: string;
+}
+
 // Message to send to Lark
 export interface LarkSendMessage {
   receive_id: string;
   receive_id_type: "open_id" | "user_id" | "union_id" | "chat_id" | "email";
   content: string; // JSON string
   msg_type: LarkMessageType;
-  reply_in_message_id?: string;
+  reply_in_message_id?: string; // Sent as a reply quoting this message
+  reply_in_thread?: boolean; // Reply inside the thread of that message
+  uuid?: string; // Idempotency key, reused when retrying the same send
 }
 
 // Streaming update message
 export interface LarkStreamUpdate {
   chatId: string;
+  streamId: string; // Identifies the answer whose card is being updated
   messageId?: string;
+  replyInThread?: boolean; // Keep the answer in the thread of messageId
   content: string;
   isComplete: boolean;
+  note?: string; // Shown under the answer, e.g. the fallback model that served it
+  error?: string; // Why the answer stopped, for streams that failed
 }
@@ -0,0 +1,163 @@
+import * as crypto from "crypto";
+import { LarkWebhookClient } from "./webhook";
+import type { LarkConfig } from "../config";
+import type { HttpRequest, HttpResponse, HttpServer } from "../server/http";
+
+const ENCRYPT_KEY = "encrypt-key";
+const TOKEN = "verification-token";
+
+const messageEvent = (token?: string) => ({
+  schema: "2.0",
+  header: {
+    event_id: "ev_1",
+    event_type: "im.message.receive_v1",
+    token,
+  },
+  event: {},
+});
+
+/**
+ * Encrypt a payload the way Lark does
+ */
+function encrypt(payload: unknown): string {
+  const key = crypto.createHash("sha256").update(ENCRYPT_KEY).digest();
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv("aes-256-cbc", key, iv);
+  return Buffer.concat([
+    iv,
+    cipher.update(JSON.stringify(payload), "utf8"),
+    cipher.final(),
+  ]).toString("base64");
+}
+
+/**
+ * Build a request, signed with the encrypt key when asked
+ */
+function buildRequest(body: unknown, signed = false): HttpRequest {
+  const text = JSON.stringify(body);
+  const headers: Record<string, string> = {};
+
+  if (signed) {
+    headers["x-lark-request-timestamp"] = "1700000000";
+    headers["x-lark-request-nonce"] = "nonce";
+    headers["x-lark-signature"] = crypto
+      .createHash("sha256")
+      .update("1700000000" + "nonce" + ENCRYPT_KEY + text)
+      .digest("hex");
+  }
+
+  return {
+    method: "POST",
+    path: "/webhook/event",
+    query: new URLSearchParams(),
+    headers,
+    body: text,
+  };
+}
+
+/**
+ * Create a webhook client and return its request handler
+ */
+function setup(secrets: Partial<LarkConfig>) {
+  let handle!: (request: HttpRequest) => Promise<HttpResponse>;
+  const server = {
+    route: (_method: string, _path: string, handler: typeof handle) => {
+      handle = handler;
+    },
+  } as unknown as HttpServer;
+  const onMessage = jest.fn(async () => undefined);
+
+  new LarkWebhookClient(
+    {
+      appId: "app",
+      appSecret: "secret",
+      connectionMode: "webhook",
+      webhookPath: "/webhook/event",
+      ...secrets,
+    },
+    server,
+    { onMessage },
+  );
+
+  return { handle: (request: HttpRequest) => handle(request), onMessage };
+}
+
+describe("LarkWebhookClient", () => {
+  describe("with an encrypt key", () => {
+    it("dispatches encrypted and signed events", async () => {
+      const { handle, onMessage } = setup({ encryptKey: ENCRYPT_KEY });
+
+      const response = await handle(
+        buildRequest({ encrypt: encrypt(messageEvent()) }, true),
+      );
+
+      expect(response.status).toBe(200);
+      expect(onMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it("rejects plaintext events", async () => {
+      const { handle, onMessage } = setup({ encryptKey: ENCRYPT_KEY });
+
+      const response = await handle(buildRequest(messageEvent(), true));
+
+      expect(response.status).toBe(401);
+      expect(onMessage).not.toHaveBeenCalled();
+    });
+
+    it("rejects unsigned or badly signed events", async () => {
+      const { handle, onMessage } = setup({ encryptKey: ENCRYPT_KEY });
+      const request = buildRequest({ encrypt: encrypt(messageEvent()) }, true);
+
+      expect((await handle({ ...request, headers: {} })).status).toBe(401);
+      expect(
+        (
+          await handle({
+            ...request,
+            headers: { ...request.headers, "x-lark-signature": "0".repeat(64) },
+          })
+        ).status,
+      ).toBe(401);
+      expect(onMessage).not.toHaveBeenCalled();
+    });
+
+    it("answers the encrypted URL verification challenge", async () => {
+      const { handle } = setup({ encryptKey: ENCRYPT_KEY });
+
+      const response = await handle(
+        buildRequest({
+          encrypt: encrypt({ type: "url_verification", challenge: "abc" }),
+        }),
+      );
+
+      expect(response).toEqual({ status: 200, body: { challenge: "abc" } });
+    });
+  });
+
+  describe("with a verification token", () => {
+    it("dispatches events carrying the token", async () => {
+      const { handle, onMessage } = setup({ verificationToken: TOKEN });
+
+      expect((await handle(buildRequest(messageEvent(TOKEN)))).status).toBe(
+        200,
+      );
+      expect(onMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it("rejects events with a wrong or missing token", async () => {
+      const { handle, onMessage } = setup({ verificationToken: TOKEN });
+
+      expect((await handle(buildRequest(messageEvent("forged")))).status).toBe(
+        401,
+      );
+      expect((await handle(buildRequest(messageEvent()))).status).toBe(401);
+      expect(onMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  it("rejects events when no secret is configured", async () => {
+    const { handle, onMessage } = setup({});
+
+    expect((await handle(buildRequest(messageEvent()))).status).toBe(401);
+    expect(onMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,259 @@
+import * as crypto from "crypto";
+import * as Lark from "@larksuiteoapi/node-sdk";
+import { getLogger, createChildLogger } from "../utils/logger";
+import { LarkConnectionError } from "../utils/errors";
+import type { LarkConfig } from "../config";
+import type { HttpServer, HttpRequest, HttpResponse } from "../server/http";
+import type {
+  LarkCardActionEvent,
+  LarkCardActionResponse,
+  LarkEventHandlers,
+  LarkEventSource,
+  LarkMessageReceiveEvent,
+} from "./types";
+
+const logger = getLogger();
+
+/**
+ * Lark webhook client for HTTP event subscriptions
+ */
+export class LarkWebhookClient implements LarkEventSource {
+  private cipher?: Lark.AESCipher;
+  private isStarted: boolean = false;
+
+  constructor(
+    private config: LarkConfig,
+    private server: HttpServer,
+    private handlers: LarkEventHandlers,
+  ) {
+    if (config.encryptKey) {
+      this.cipher = new Lark.AESCipher(config.encryptKey);
+    }
+
+    this.server.route("POST", config.webhookPath, (request) =>
+      this.handleRequest(request),
+    );
+
+    logger.info("Lark webhook client initialized", {
+      appId: config.appId,
+      path: config.webhookPath,
+      encrypted: !!config.encryptKey,
+    });
+  }
+
+  /**
+   * Start receiving events over HTTP
+   */
+  async start(): Promise<void> {
+    if (this.isStarted) {
+      logger.warn("Webhook is already started");
+      return;
+    }
+
+    try {
+      logger.info("Starting Lark webhook server...");
+
+      await this.server.start();
+      this.isStarted = true;
+
+      logger.info("Lark webhook server started successfully");
+    } catch (error) {
+      logger.error("Failed to start Lark webhook server", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      throw new LarkConnectionError(
+        "Failed to start webhook server",
+        error instanceof Error ? error : new Error(String(error)),
+      );
+    }
+  }
+
+  /**
+   * Stop receiving events
+   */
+  async stop(): Promise<void> {
+    if (!this.isStarted) {
+      logger.warn("Webhook is not started");
+      return;
+    }
+
+    logger.info("Stopping Lark webhook server...");
+
+    this.isStarted = false;
+    await this.server.stop();
+
+    logger.info("Lark webhook server stopped successfully");
+  }
+
+  /**
+   * Check if the webhook is accepting events
+   */
+  isReady(): boolean {
+    return this.isStarted && this.server.isReady();
+  }
+
+  /**
+   * Verify, decrypt and dispatch an event callback from Lark
+   *
+   * With an encrypt key, every event must be encrypted and signed; otherwise
+   * it must carry the verification token. Requests that neither secret can
+   * authenticate are rejected.
+   */
+  private async handleRequest(request: HttpRequest): Promise<HttpResponse> {
+    const childLogger = createChildLogger({ path: request.path });
+
+    let payload: any;
+    try {
+      payload = JSON.parse(request.body);
+    } catch {
+      childLogger.warn("Rejected webhook request with invalid JSON");
+      return { status: 400, body: { error: "Invalid JSON" } };
+    }
+
+    const isEncrypted = typeof payload.encrypt === "string";
+    if (isEncrypted) {
+      try {
+        payload = this.decrypt(payload.encrypt);
+      } catch (error) {
+        childLogger.warn("Failed to decrypt webhook payload", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return { status: 400, body: { error: "Invalid encrypted payload" } };
+      }
+    }
+
+    // Lark doesn't sign the challenge of the console's URL check, so it is
+    // answered before verification, as the SDK does
+    if (payload.type === "url_verification") {
+      childLogger.info("Answered Lark URL verification challenge");
+      return { status: 200, body: { challenge: payload.challenge } };
+    }
+
+    if (this.config.encryptKey) {
+      if (!isEncrypted) {
+        childLogger.warn("Rejected unencrypted webhook request");
+        return { status: 401, body: { error: "Encrypted payload required" } };
+      }
+
+      if (!this.verifySignature(request)) {
+        childLogger.warn("Rejected webhook request with invalid signature");
+        return { status: 401, body: { error: "Invalid signature" } };
+      }
+    } else if (!this.config.verificationToken) {
+      childLogger.warn(
+        "Rejected webhook request, no verification token or encrypt key is set",
+      );
+      return { status: 401, body: { error: "Cannot authenticate request" } };
+    }
+
+    // Version 2 events carry the token in the header, the rest at the top level
+    const token = payload.header?.token ?? payload.token;
+    if (
+      this.config.verificationToken &&
+      token !== this.config.verificationToken
+    ) {
+      childLogger.warn("Rejected webhook request with invalid token");
+      return { status: 401, body: { error: "Invalid verification token" } };
+    }
+
+    const eventType = payload.header?.event_type;
+    childLogger.debug("Received event from Lark", {
+      eventType,
+      eventId: payload.header?.event_id,
+    });
+
+    if (eventType === "im.message.receive_v1") {
+      // Lark expects an answer within 3 seconds, so process in the background
+      this.handleMessage(payload as LarkMessageReceiveEvent);
+    } else if (eventType === "card.action.trigger") {
+      // The callback response carries the toast or updated card
+      const response = await this.handleCardAction(
+        payload as LarkCardActionEvent,
+      );
+      return { status: 200, body: response || {} };
+    } else {
+      childLogger.debug("Ignoring unsupported event type", { eventType });
+    }
+
+    return { status: 200, body: {} };
+  }
+
+  /**
+   * Check the request signature computed with the encrypt key
+   */
+  private verifySignature(request: HttpRequest): boolean {
+    if (!this.config.encryptKey) {
+      return false;
+    }
+
+    const timestamp = request.headers["x-lark-request-timestamp"];
+    const nonce = request.headers["x-lark-request-nonce"];
+    const signature = request.headers["x-lark-signature"];
+
+    if (
+      typeof timestamp !== "string" ||
+      typeof nonce !== "string" ||
+      typeof signature !== "string"
+    ) {
+      return false;
+    }
+
+    const expected = crypto
+      .createHash("sha256")
+      .update(timestamp + nonce + this.config.encryptKey + request.body)
+      .digest("hex");
+
+    return (
+      expected.length === signature.length &&
+      crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature))
+    );
+  }
+
+  /**
+   * Decrypt an encrypted event payload
+   */
+  private decrypt(encrypted: string): any {
+    if (!this.cipher) {
+      throw new Error("Received encrypted payload but no encrypt key is set");
+    }
+
+    return JSON.parse(this.cipher.decrypt(encrypted));
+  }
+
+  /**
+   * Pass a message event to the handler
+   */
+  private async handleMessage(event: LarkMessageReceiveEvent): Promise<void> {
+    try {
+      await this.handlers.onMessage(event);
+    } catch (error) {
+      logger.error("Failed to handle message from Lark", {
+        error: error instanceof Error ? error.message : String(error),
+        eventId: event.header?.event_id,
+      });
+    }
+  }
+
+  /**
+   * Pass a card action event to the handler
+   */
+  private async handleCardAction(
+    event: LarkCardActionEvent,
+  ): Promise<LarkCardActionResponse | undefined> {
+    if (!this.handlers.onCardAction) {
+      logger.debug("Ignoring card action without a handler");
+      return undefined;
+    }
+
+    try {
+      return await this.handlers.onCardAction(event);
+    } catch (error) {
+      logger.error("Failed to handle card action from Lark", {
+        error: error instanceof Error ? error.message : String(error),
+        eventId: event.header?.event_id,
+      });
+      return undefined;
+    }
+  }
+}
@@ -2,14 +2,20 @@ import * as Lark from "@larksuiteoapi/node-sdk";
 import { getLogger, createChildLogger } from "../utils/logger";
 import { LarkConnectionError } from "../utils/errors";
 import type { LarkConfig } from "../config";
-import type { LarkMessageReceiveEvent } from "./types";
+import type {
+  LarkCardActionEvent,
+  LarkCardActionResponse,
+  LarkEventHandlers,
+  LarkEventSource,
+  LarkMessageReceiveEvent,
+} from "./types";
 
 const logger = getLogger();
 
 /**
  * Lark WebSocket client for real-time event handling
  */
-export class LarkWebSocketClient {
+export class LarkWebSocketClient implements LarkEventSource {
   private wsClient: Lark.WSClient;
   private eventDispatcher: Lark.EventDispatcher;
   private reconnectAttempts: number = 0;
@@ -20,7 +26,7 @@ export class LarkWebSocketClient {
 
   constructor(
     _config: LarkConfig,
-    private messageHandler: (event: LarkMessageReceiveEvent) => Promise<void>,
+    private handlers: LarkEventHandlers,
   ) {
     this.wsClient = new Lark.WSClient({
       appId: _config.appId,
@@ -34,6 +40,9 @@ export class LarkWebSocketClient {
       "im.message.receive_v1": async (data: any) => {
         await this.handleMessage(data);
       },
+      "card.action.trigger": async (data: any) => {
+        return this.handleCardAction(data);
+      },
     });
 
     logger.info("Lark WebSocket client initialized", {
@@ -112,10 +121,12 @@ export class LarkWebSocketClient {
 
     try {
       childLogger.debug("Received message from Lark", {
-        eventType: data.type,
+        eventType: data.event_type,
       });
 
-      await this.messageHandler(data);
+      await this.handlers.onMessage(
+        toEventEnvelope<LarkMessageReceiveEvent>(data),
+      );
     } catch (error) {
       childLogger.error("Failed to handle message from Lark", {
         error: error instanceof Error ? error.message : String(error),
@@ -124,6 +135,31 @@ export class LarkWebSocketClient {
     }
   }
 
+  /**
+   * Handle card button callback from Lark
+   *
+   * The returned value is sent back to Lark as the callback response.
+   */
+  private async handleCardAction(
+    data: any,
+  ): Promise<LarkCardActionResponse | undefined> {
+    if (!this.handlers.onCardAction) {
+      logger.debug("Ignoring card action without a handler");
+      return undefined;
+    }
+
+    try {
+      return await this.handlers.onCardAction(
+        toEventEnvelope<LarkCardActionEvent>(data),
+      );
+    } catch (error) {
+      logger.error("Failed to handle card action from Lark", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
   /**
    * Check if WebSocket is connected
    */
@@ -131,3 +167,27 @@ export class LarkWebSocketClient {
     return this.isConnected;
   }
 }
+
+/**
+ * Rebuild the `{ schema, header, event }` envelope of a version 2 event
+ *
+ * The SDK dispatcher flattens header and event fields into one object
+ * before calling handlers.
+ */
+function toEventEnvelope<T>(data: any): T {
+  const {
+    schema,
+    event_id,
+    event_type,
+    create_time,
+    tenant_key,
+    app_id,
+    ...event
+  } = data;
+
+  return {
+    schema,
+    header: { event_id, event_type, create_time, tenant_key, app_id },
+    event,
+  } as T;
+}
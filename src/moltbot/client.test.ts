@@ -0,0 +1,138 @@
+import { simulateReadableStream, tool } from "ai";
+import { z } from "zod";
+import { ModelBusyError } from "../utils/errors";
+import { ConcurrencyLimiter } from "../utils/limiter";
+import { MoltbotClient } from "./client";
+import { awaitFirstChunk } from "./router";
+
+const textChunks = [
+  ...["a", "b", "c", "d", "e"].map((textDelta) => ({
+    type: "text-delta",
+    textDelta,
+  })),
+  {
+    type: "finish",
+    finishReason: "stop",
+    usage: { promptTokens: 1, completionTokens: 5 },
+  },
+];
+
+// Chunks of the next model calls; five text chunks when empty
+const mockStreams: unknown[][] = [];
+
+// Language model streaming its chunks 20 ms apart
+const mockModel = {
+  specificationVersion: "v1",
+  provider: "mock",
+  modelId: "model",
+  defaultObjectGenerationMode: undefined,
+  doGenerate: async () => {
+    throw new Error("Not used");
+  },
+  doStream: async () => ({
+    stream: simulateReadableStream({
+      chunks: mockStreams.shift() || textChunks,
+      chunkDelayInMs: 20,
+    }),
+    rawCall: { rawPrompt: null, rawSettings: {} },
+  }),
+};
+
+jest.mock("@ai-sdk/openai-compatible", () => ({
+  createOpenAICompatible: () => ({ chatModel: () => mockModel }),
+}));
+
+const config = {
+  apiEndpoint: "http://localhost:1/v1",
+  apiKey: "key",
+  modelName: "model",
+  streaming: true as const,
+};
+const messages = [{ role: "user" as const, content: "hi" }];
+
+describe("MoltbotClient.sendStreamRequest", () => {
+  it("frees its concurrency slot when the reader stops early", async () => {
+    const limiter = new ConcurrencyLimiter({
+      maxConcurrent: 1,
+      maxQueue: 0,
+      queueTimeoutMs: 1000,
+    });
+    const client = new MoltbotClient(config, limiter);
+
+    const response = await awaitFirstChunk(
+      await client.sendStreamRequest(messages),
+    );
+    let read = 0;
+    for await (const part of response.parts) {
+      expect(part.type).toBe("text");
+      if (++read === 2) {
+        break;
+      }
+    }
+
+    expect(limiter.getStats().active).toBe(0);
+    await expect(client.sendStreamRequest(messages)).resolves.toBeDefined();
+  });
+
+  it("holds its slot while the stream is read", async () => {
+    const limiter = new ConcurrencyLimiter({
+      maxConcurrent: 1,
+      maxQueue: 0,
+      queueTimeoutMs: 1000,
+    });
+    const client = new MoltbotClient(config, limiter);
+
+    const response = await client.sendStreamRequest(messages);
+    await expect(client.sendStreamRequest(messages)).rejects.toBeInstanceOf(
+      ModelBusyError,
+    );
+
+    const text: string[] = [];
+    for await (const part of response.parts) {
+      if (part.type === "text") {
+        text.push(part.text);
+      }
+    }
+    expect(text.join("")).toBe("abcde");
+    expect(limiter.getStats().active).toBe(0);
+  });
+
+  it("reports the usage of every tool step", async () => {
+    mockStreams.push([
+      {
+        type: "tool-call",
+        toolCallType: "function",
+        toolCallId: "call_1",
+        toolName: "echo",
+        args: '{"text":"x"}',
+      },
+      {
+        type: "finish",
+        finishReason: "tool-calls",
+        usage: { promptTokens: 10, completionTokens: 2 },
+      },
+    ]);
+    const client = new MoltbotClient(config);
+
+    const response = await client.sendStreamRequest(messages, {
+      tools: {
+        echo: tool({
+          parameters: z.object({ text: z.string() }),
+          execute: async ({ text }) => text,
+        }),
+      },
+      maxSteps: 2,
+    });
+    const types: string[] = [];
+    for await (const part of response.parts) {
+      types.push(part.type);
+    }
+
+    expect(types.slice(0, 2)).toEqual(["tool-call", "tool-result"]);
+    await expect(response.usage).resolves.toEqual({
+      promptTokens: 11,
+      completionTokens: 7,
+      totalTokens: 18,
+    });
+  });
+});
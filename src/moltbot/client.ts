@@ -1,11 +1,15 @@
 import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
-import { streamText, generateText } from "ai";
+import { APICallError, RetryError, streamText, generateText } from "ai";
 import { getLogger } from "../utils/logger";
 import { MoltbotError, MoltbotConnectionError } from "../utils/errors";
+import { ConcurrencyLimiter } from "../utils/limiter";
+import { endSpan, startSpan, withSpan } from "../utils/tracing";
+import type { Span } from "@opentelemetry/api";
 import type { MoltbotConfig } from "../config";
 import type {
   MoltbotMessage,
   MoltbotRequestOptions,
+  MoltbotStreamPart,
   MoltbotStreamResponse,
   MoltbotResponse,
 } from "./types";
@@ -18,7 +22,10 @@ const logger = getLogger();
 export class MoltbotClient {
   private provider: ReturnType<typeof createOpenAICompatible>;
 
-  constructor(private config: MoltbotConfig) {
+  constructor(
+    private config: MoltbotConfig,
+    private limiter?: ConcurrencyLimiter, // Shared cap on concurrent calls
+  ) {
     this.provider = createOpenAICompatible({
       baseURL: config.apiEndpoint,
       name: "moltbot",
@@ -39,41 +46,64 @@ export class MoltbotClient {
     messages: MoltbotMessage[],
     options?: Partial<MoltbotRequestOptions>,
   ): Promise<MoltbotResponse> {
-    try {
-      logger.debug("Sending request to Moltbot", {
-        messageCount: messages.length,
-        modelName: this.config.modelName,
-      });
+    const modelName = options?.model ?? this.config.modelName;
 
-      const model = this.provider.chatModel(this.config.modelName);
+    return withSpan(
+      "moltbot.generate",
+      {
+        "moltbot.model": modelName,
+        "moltbot.message_count": messages.length,
+      },
+      async (span) => {
+        const release = await this.acquireSlot();
 
-      const { text, finishReason, usage } = await generateText({
-        model: model as any, // Type assertion to bypass type checking
-        messages: messages as any,
-        temperature: options?.temperature ?? this.config.temperature,
-        maxTokens: options?.maxTokens ?? this.config.maxTokens,
-      });
+        try {
+          logger.debug("Sending request to Moltbot", {
+            messageCount: messages.length,
+            modelName,
+          });
 
-      logger.debug("Received response from Moltbot", {
-        textLength: text.length,
-        finishReason,
-        usage,
-      });
+          const model = this.provider.chatModel(modelName);
 
-      return {
-        text,
-        finishReason,
-        usage: usage
-          ? {
-              promptTokens: usage.promptTokens,
-              completionTokens: usage.completionTokens,
-              totalTokens: usage.totalTokens,
-            }
-          : undefined,
-      };
-    } catch (error) {
-      this.handleError(error, "Failed to send request to Moltbot");
-    }
+          const { text, finishReason, usage } = await generateText({
+            model: model as any, // Type assertion to bypass type checking
+            messages: messages as any,
+            temperature: options?.temperature ?? this.config.temperature,
+            maxTokens: options?.maxTokens ?? this.config.maxTokens,
+            tools: options?.tools,
+            maxSteps: options?.maxSteps,
+          });
+
+          logger.debug("Received response from Moltbot", {
+            textLength: text.length,
+            finishReason,
+            usage,
+          });
+
+          span.setAttributes({
+            "moltbot.finish_reason": finishReason,
+            "moltbot.prompt_tokens": usage?.promptTokens,
+            "moltbot.completion_tokens": usage?.completionTokens,
+          });
+
+          return {
+            text,
+            finishReason,
+            usage: usage
+              ? {
+                  promptTokens: usage.promptTokens,
+                  completionTokens: usage.completionTokens,
+                  totalTokens: usage.totalTokens,
+                }
+              : undefined,
+          };
+        } catch (error) {
+          this.handleError(error, "Failed to send request to Moltbot");
+        } finally {
+          release();
+        }
+      },
+    );
   }
 
   /**
@@ -83,25 +113,86 @@ export class MoltbotClient {
     messages: MoltbotMessage[],
     options?: Partial<MoltbotRequestOptions>,
   ): Promise<MoltbotStreamResponse> {
+    const modelName = options?.model ?? this.config.modelName;
+    const startedAt = Date.now();
+    const span = startSpan("moltbot.stream", {
+      "moltbot.model": modelName,
+      "moltbot.message_count": messages.length,
+    });
+
+    // Slot and span are held until the stream has finished, failed or been aborted
+    let release: () => void = () => undefined;
+    let isSettled = false;
+    const settle = (error?: unknown) => {
+      release();
+      if (!isSettled) {
+        isSettled = true;
+        endSpan(span, error);
+      }
+    };
+
+    try {
+      release = await this.acquireSlot();
+    } catch (error) {
+      settle(error);
+      throw error;
+    }
+    span.setAttribute("moltbot.queue_wait_ms", Date.now() - startedAt);
+    options?.abortSignal?.addEventListener(
+      "abort",
+      () => {
+        span.setAttribute("moltbot.aborted", true);
+        settle();
+      },
+      { once: true },
+    );
+
     try {
       logger.debug("Sending streaming request to Moltbot", {
         messageCount: messages.length,
-        modelName: this.config.modelName,
+        modelName,
       });
 
-      const model = this.provider.chatModel(this.config.modelName);
+      const model = this.provider.chatModel(modelName);
 
       const result = await streamText({
         model: model as any, // Type assertion to bypass type checking
         messages: messages as any,
         temperature: options?.temperature ?? this.config.temperature,
         maxTokens: options?.maxTokens ?? this.config.maxTokens,
+        abortSignal: options?.abortSignal,
+        tools: options?.tools,
+        maxSteps: options?.maxSteps,
+        onFinish: ({ finishReason, usage }) => {
+          span.setAttributes({
+            "moltbot.finish_reason": finishReason,
+            "moltbot.prompt_tokens": usage?.promptTokens,
+            "moltbot.completion_tokens": usage?.completionTokens,
+          });
+          settle();
+        },
+        onError: ({ error }) => {
+          settle(error);
+          logger.error("Moltbot stream failed", {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        },
       });
+      result.text.then(
+        () => settle(),
+        (error) => settle(error),
+      );
 
       logger.debug("Stream response initiated from Moltbot");
 
       return {
-        textStream: result.textStream,
+        parts: readStream(
+          result.fullStream,
+          span,
+          startedAt,
+          (error) => this.toMoltbotError(error, "Moltbot stream failed"),
+          () => settle(),
+        ),
         text: result.text,
         finishReason: result.finishReason,
         usage: result.usage.then((u: any) =>
@@ -115,10 +206,54 @@ export class MoltbotClient {
         ),
       };
     } catch (error) {
+      settle(error);
       this.handleError(error, "Failed to send streaming request to Moltbot");
     }
   }
 
+  /**
+   * Check that the API endpoint is reachable by listing its models
+   *
+   * Any answer below 500 counts as reachable, since some compatible
+   * servers don't implement `/models`.
+   */
+  async probe(timeoutMs: number = 5000): Promise<void> {
+    const url = `${this.config.apiEndpoint.replace(/\/+$/, "")}/models`;
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: {
+          Authorization: `Bearer ${this.config.apiKey}`,
+        },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      throw new MoltbotConnectionError(
+        `Connection error: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined,
+      );
+    }
+
+    // Free the connection, only the status matters
+    await response.body?.cancel();
+
+    if (response.status >= 500) {
+      throw new MoltbotError(
+        `Model endpoint answered with status ${response.status}`,
+        String(response.status),
+        true,
+      );
+    }
+  }
+
+  /**
+   * Wait for a slot of the concurrency limiter, if any
+   */
+  private async acquireSlot(): Promise<() => void> {
+    return this.limiter ? this.limiter.acquire() : () => undefined;
+  }
+
   /**
    * Handle errors from Moltbot API
    */
@@ -128,23 +263,52 @@ export class MoltbotClient {
       stack: error instanceof Error ? error.stack : undefined,
     });
 
+    throw this.toMoltbotError(error, message);
+  }
+
+  /**
+   * Convert an error from the AI SDK into a MoltbotError
+   *
+   * Unreachable endpoints and retryable API answers (429, 5xx) are transient,
+   * so that they can be failed over.
+   */
+  private toMoltbotError(error: unknown, message: string): MoltbotError {
+    if (error instanceof MoltbotError) {
+      return error;
+    }
+
+    // The SDK's own retries wrap the error of their last attempt
+    if (RetryError.isInstance(error) && error.lastError !== undefined) {
+      return this.toMoltbotError(error.lastError, message);
+    }
+
     if (error instanceof Error) {
       // Check for connection errors
       if (
         error.message.includes("ECONNREFUSED") ||
         error.message.includes("ETIMEDOUT") ||
-        error.message.includes("ENOTFOUND")
+        error.message.includes("ENOTFOUND") ||
+        error.message.includes("Cannot connect to API")
       ) {
-        throw new MoltbotConnectionError(
+        return new MoltbotConnectionError(
           `Connection error: ${error.message}`,
           error,
         );
       }
 
-      throw new MoltbotError(message, undefined, false, error);
+      if (APICallError.isInstance(error)) {
+        return new MoltbotError(
+          `${message}: ${error.message}`,
+          error.statusCode !== undefined ? String(error.statusCode) : undefined,
+          error.isRetryable,
+          error,
+        );
+      }
+
+      return new MoltbotError(message, undefined, false, error);
     }
 
-    throw new MoltbotError(message);
+    return new MoltbotError(message);
   }
 
   /**
@@ -161,3 +325,58 @@ export class MoltbotClient {
     return this.config.streaming;
   }
 }
+
+/**
+ * Read the text and tool calls of a stream, marking its first part on the span
+ *
+ * The AI SDK's own text stream drops error parts, which would end a failed
+ * answer as if it were complete; here they are thrown instead. `onClose`
+ * runs however reading ends, including when the reader stops early.
+ */
+async function* readStream(
+  stream: AsyncIterable<{
+    type: string;
+    textDelta?: string;
+    toolCallId?: string;
+    toolName?: string;
+    error?: unknown;
+  }>,
+  span: Span,
+  startedAt: number,
+  toError: (error: unknown) => Error,
+  onClose: () => void,
+): AsyncIterable<MoltbotStreamPart> {
+  let isFirst = true;
+
+  try {
+    for await (const part of stream) {
+      let next: MoltbotStreamPart;
+
+      if (part.type === "error") {
+        throw toError(part.error);
+      } else if (part.type === "text-delta" && part.textDelta) {
+        next = { type: "text", text: part.textDelta };
+      } else if (part.type === "tool-call" || part.type === "tool-result") {
+        next = {
+          type: part.type,
+          toolCallId: part.toolCallId!,
+          toolName: part.toolName!,
+        };
+      } else {
+        continue;
+      }
+
+      if (isFirst) {
+        isFirst = false;
+        span.addEvent("first_chunk");
+        span.setAttribute(
+          "moltbot.time_to_first_chunk_ms",
+          Date.now() - startedAt,
+        );
+      }
+      yield next;
+    }
+  } finally {
+    onClose();
+  }
+}
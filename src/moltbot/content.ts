@@ -0,0 +1,28 @@
+import type { MoltbotMessage } from "./types";
+
+/**
+ * Get the text of message content, rendering images as a placeholder
+ */
+export function getMessageText(
+  content: MoltbotMessage["content"],
+  imagePlaceholder: string = "[image]",
+): string {
+  if (typeof content === "string") {
+    return content;
+  }
+
+  return content
+    .map((part) => (part.type === "text" ? part.text : imagePlaceholder))
+    .join("\n");
+}
+
+/**
+ * Count the image parts of message content
+ */
+export function countImages(content: MoltbotMessage["content"]): number {
+  if (typeof content === "string") {
+    return 0;
+  }
+
+  return content.filter((part) => part.type === "image").length;
+}
@@ -0,0 +1,191 @@
+import {
+  MoltbotConnectionError,
+  MoltbotError,
+  ValidationError,
+} from "../utils/errors";
+import { DEFAULT_PROVIDER, ModelRouter } from "./router";
+import type { RoutingConfig } from "../config";
+
+const moltbot = {
+  apiEndpoint: "http://localhost:1/v1",
+  apiKey: "key",
+  modelName: "base",
+  streaming: true as const,
+};
+
+function createRouter(routing: Partial<RoutingConfig> = {}): ModelRouter {
+  return new ModelRouter(moltbot, {
+    providers: [
+      {
+        name: "backup",
+        apiEndpoint: "http://localhost:2/v1",
+        apiKey: "key",
+        models: ["vision", "small"],
+      },
+    ],
+    rules: [{ messageTypes: ["image"], model: "vision" }],
+    fallbacks: ["backup/small"],
+    contextWindows: {},
+    circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60000 },
+    ...routing,
+  });
+}
+
+describe("ModelRouter", () => {
+  describe("validateModel", () => {
+    const router = createRouter();
+
+    it("accepts listed models", () => {
+      expect(router.listModels()).toEqual([
+        "base",
+        "backup/vision",
+        "backup/small",
+      ]);
+      for (const name of ["base", "backup/small", "small"]) {
+        expect(() => router.validateModel(name)).not.toThrow();
+      }
+    });
+
+    it("rejects unknown models", () => {
+      for (const name of ["gpt-5", "backup/gpt-5", "backup/", "nope/small"]) {
+        expect(() => router.validateModel(name)).toThrow(ValidationError);
+      }
+    });
+  });
+
+  describe("route", () => {
+    const router = createRouter();
+
+    it("prefers the chat's choice, then rules, then the default model", () => {
+      expect(
+        router.route({
+          chatId: "oc_1",
+          messageTypes: ["image"],
+          model: "base",
+        }),
+      ).toMatchObject({ provider: DEFAULT_PROVIDER, model: "base" });
+      expect(
+        router.route({ chatId: "oc_1", messageTypes: ["text", "image"] }),
+      ).toMatchObject({ provider: "backup", model: "vision" });
+      expect(
+        router.route({ chatId: "oc_1", messageTypes: ["text"] }),
+      ).toMatchObject({ provider: DEFAULT_PROVIDER, model: "base" });
+    });
+  });
+
+  describe("context windows", () => {
+    it("prefers the model's window, then the provider's, then the known one", () => {
+      const router = createRouter({
+        providers: [
+          {
+            name: "backup",
+            apiEndpoint: "http://localhost:2/v1",
+            apiKey: "key",
+            models: ["vision", "small"],
+            contextWindow: 32000,
+          },
+        ],
+        contextWindows: { vision: 200000 },
+      });
+
+      expect(
+        router.route({ chatId: "oc_1", messageTypes: ["image"] }).contextWindow,
+      ).toBe(200000);
+      expect(
+        router.route({ chatId: "oc_1", messageTypes: [], model: "small" })
+          .contextWindow,
+      ).toBe(32000);
+      expect(
+        router.route({ chatId: "oc_1", messageTypes: [] }).contextWindow,
+      ).toBe(8192);
+      expect(router.getLargestContextWindow()).toBe(200000);
+    });
+  });
+
+  describe("probe", () => {
+    it("is reachable when any provider of the fallback chain answers", async () => {
+      const router = createRouter();
+      const primary = router.route({ chatId: "oc_1" }).client;
+      const backup = router.route({
+        chatId: "oc_1",
+        model: "backup/small",
+      }).client;
+      jest
+        .spyOn(primary, "probe")
+        .mockRejectedValue(new MoltbotConnectionError("Connection error"));
+      const backupProbe = jest
+        .spyOn(backup, "probe")
+        .mockResolvedValue(undefined);
+
+      await expect(router.probe()).resolves.toBeUndefined();
+      expect(backupProbe).toHaveBeenCalledTimes(1);
+    });
+
+    it("fails when every provider is down", async () => {
+      const router = createRouter({ fallbacks: [] });
+      jest
+        .spyOn(router.route({ chatId: "oc_1" }).client, "probe")
+        .mockRejectedValue(new MoltbotConnectionError("Connection error"));
+
+      await expect(router.probe()).rejects.toBeInstanceOf(
+        MoltbotConnectionError,
+      );
+    });
+  });
+
+  describe("withFailover", () => {
+    const unreachable = () => new MoltbotConnectionError("Connection error");
+
+    it("fails over to the fallback chain on endpoint failures", async () => {
+      const router = createRouter();
+      const calls: string[] = [];
+
+      const { result, route } = await router.withFailover(
+        router.route({ chatId: "oc_1" }),
+        async (candidate) => {
+          calls.push(`${candidate.provider}/${candidate.model}`);
+          if (candidate.provider === DEFAULT_PROVIDER) {
+            throw unreachable();
+          }
+          return "ok";
+        },
+      );
+
+      expect(result).toBe("ok");
+      expect(route).toMatchObject({ provider: "backup", model: "small" });
+      expect(calls).toEqual(["default/base", "backup/small"]);
+    });
+
+    it("throws other errors at once", async () => {
+      const router = createRouter();
+      const call = jest.fn(async () => {
+        throw new MoltbotError("Bad request", "400", false);
+      });
+
+      await expect(
+        router.withFailover(router.route({ chatId: "oc_1" }), call),
+      ).rejects.toThrow("Bad request");
+      expect(call).toHaveBeenCalledTimes(1);
+    });
+
+    it("skips providers whose circuit is open", async () => {
+      const router = createRouter({ fallbacks: [] });
+      const route = router.route({ chatId: "oc_1" });
+      const call = jest.fn(async () => {
+        throw unreachable();
+      });
+
+      for (let i = 0; i < 2; i++) {
+        await expect(router.withFailover(route, call)).rejects.toBeInstanceOf(
+          MoltbotConnectionError,
+        );
+      }
+      expect(router.getCircuitStates()[DEFAULT_PROVIDER]).toBe("open");
+
+      await expect(router.withFailover(route, call)).rejects.toThrow(
+        "all model endpoints are down",
+      );
+      expect(call).toHaveBeenCalledTimes(2);
+    });
+  });
+});
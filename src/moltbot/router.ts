@@ -0,0 +1,428 @@
+import { getLogger } from "../utils/logger";
+import {
+  ConfigError,
+  ModelBusyError,
+  MoltbotConnectionError,
+  MoltbotError,
+  ValidationError,
+} from "../utils/errors";
+import { CircuitBreaker } from "../utils/breaker";
+import type { CircuitState } from "../utils/breaker";
+import { ConcurrencyLimiter } from "../utils/limiter";
+import { getContextWindow } from "../utils/tokens";
+import { MoltbotClient } from "./client";
+import type { MoltbotConfig, RoutingConfig, RoutingRule } from "../config";
+import type { MoltbotStreamPart, MoltbotStreamResponse } from "./types";
+
+const logger = getLogger();
+
+// Name of the provider built from the `moltbot` config section
+export const DEFAULT_PROVIDER = "default";
+
+/**
+ * What a model is picked for
+ */
+export interface RouteRequest {
+  chatId: string;
+  chatType?: string;
+  senderId?: string;
+  messageTypes?: string[]; // Types of the messages and attachments of the turn
+  model?: string; // Explicit choice made with /model
+}
+
+/**
+ * Model picked for a request and the client that serves it
+ */
+export interface ModelRoute {
+  provider: string;
+  model: string;
+  client: MoltbotClient;
+  contextWindow: number; // Configured or known window of the model, in tokens
+}
+
+/**
+ * Result of a call and the model that actually served it
+ */
+export interface FailoverResult<T> {
+  result: T;
+  route: ModelRoute;
+}
+
+/**
+ * Picks the provider and model of each answer
+ *
+ * An explicit /model choice wins, then the first matching routing rule, then
+ * the default model of the `moltbot` section. When the endpoint of that model
+ * fails, the fallback chain is tried in order.
+ */
+export class ModelRouter {
+  private clients: Map<string, MoltbotClient> = new Map();
+  private breakers: Map<string, CircuitBreaker> = new Map();
+  // Provider of each listed model, for choices that name only the model
+  private modelProviders: Map<string, string> = new Map();
+  // Models offered as /model choices, as `<provider>/<model>` after the default
+  private choices: string[];
+  private rules: RoutingRule[];
+  private fallbacks: { provider: string; model: string }[];
+  // Configured context windows by model name, then by provider
+  private contextWindows: Record<string, number>;
+  private providerContextWindows: Map<string, number> = new Map();
+
+  constructor(
+    private config: MoltbotConfig,
+    routing: RoutingConfig,
+    limiter?: ConcurrencyLimiter,
+  ) {
+    this.rules = routing.rules;
+    this.contextWindows = routing.contextWindows;
+    if (config.contextWindow) {
+      this.providerContextWindows.set(DEFAULT_PROVIDER, config.contextWindow);
+    }
+    this.clients.set(DEFAULT_PROVIDER, new MoltbotClient(config, limiter));
+    this.choices = [config.modelName];
+
+    for (const provider of routing.providers) {
+      if (this.clients.has(provider.name)) {
+        throw new ConfigError(`Duplicate model provider "${provider.name}"`);
+      }
+
+      this.clients.set(
+        provider.name,
+        new MoltbotClient(
+          {
+            ...config,
+            apiEndpoint: provider.apiEndpoint,
+            apiKey: provider.apiKey,
+          },
+          limiter,
+        ),
+      );
+
+      if (provider.contextWindow) {
+        this.providerContextWindows.set(provider.name, provider.contextWindow);
+      }
+
+      for (const model of provider.models) {
+        this.choices.push(`${provider.name}/${model}`);
+        if (!this.modelProviders.has(model)) {
+          this.modelProviders.set(model, provider.name);
+        }
+      }
+    }
+
+    for (const rule of this.rules) {
+      if (rule.provider && !this.clients.has(rule.provider)) {
+        throw new ConfigError(
+          `Routing rule for "${rule.model}" uses unknown provider "${rule.provider}"`,
+        );
+      }
+    }
+
+    for (const name of this.clients.keys()) {
+      this.breakers.set(name, new CircuitBreaker(name, routing.circuitBreaker));
+    }
+    this.fallbacks = routing.fallbacks.map((choice) => this.parseModel(choice));
+
+    logger.info("Model router initialized", {
+      providers: Array.from(this.clients.keys()),
+      rules: this.rules.length,
+      fallbacks: routing.fallbacks.length,
+    });
+  }
+
+  /**
+   * Pick the model for a request
+   */
+  route(request: RouteRequest): ModelRoute {
+    if (request.model) {
+      return this.toRoute(this.parseModel(request.model));
+    }
+
+    const rule = this.rules.find((candidate) => matches(candidate, request));
+    if (rule) {
+      logger.debug("Routing rule matched", {
+        chatId: request.chatId,
+        model: rule.model,
+      });
+      return this.toRoute(
+        rule.provider
+          ? { provider: rule.provider, model: rule.model }
+          : this.parseModel(rule.model),
+      );
+    }
+
+    return this.toRoute({
+      provider: DEFAULT_PROVIDER,
+      model: this.config.modelName,
+    });
+  }
+
+  /**
+   * Run a call on the routed model, failing over along the fallback chain
+   *
+   * Providers whose circuit is open are skipped. Only endpoint failures
+   * (unreachable, rate limited, server errors) fail over; other errors are
+   * thrown at once.
+   */
+  async withFailover<T>(
+    route: ModelRoute,
+    call: (route: ModelRoute) => Promise<T>,
+  ): Promise<FailoverResult<T>> {
+    let lastError: unknown;
+
+    for (const candidate of this.candidates(route)) {
+      const breaker = this.breakers.get(candidate.provider)!;
+      if (!breaker.canRequest()) {
+        logger.debug("Skipping provider with open circuit", {
+          provider: candidate.provider,
+        });
+        continue;
+      }
+
+      try {
+        const result = await call(candidate);
+        breaker.recordSuccess();
+        return { result, route: candidate };
+      } catch (error) {
+        if (!isEndpointFailure(error)) {
+          throw error;
+        }
+
+        breaker.recordFailure();
+        lastError = error;
+        logger.warn("Model endpoint failed, trying next fallback", {
+          provider: candidate.provider,
+          model: candidate.model,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    throw (
+      lastError ??
+      new MoltbotConnectionError(
+        "Connection error: all model endpoints are down",
+      )
+    );
+  }
+
+  /**
+   * Check that a provider of the default model or its fallbacks is reachable
+   *
+   * Providers are probed in chain order until one answers; the error of the
+   * last one is thrown when none does.
+   */
+  async probe(): Promise<void> {
+    const providers = new Set([
+      DEFAULT_PROVIDER,
+      ...this.fallbacks.map((fallback) => fallback.provider),
+    ]);
+    let lastError: unknown;
+
+    for (const provider of providers) {
+      try {
+        await this.clients.get(provider)!.probe();
+        return;
+      } catch (error) {
+        lastError = error;
+        logger.debug("Model provider probe failed", {
+          provider,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Get the circuit state of each provider
+   */
+  getCircuitStates(): Record<string, CircuitState> {
+    return Object.fromEntries(
+      Array.from(this.breakers.entries()).map(([name, breaker]) => [
+        name,
+        breaker.getState(),
+      ]),
+    );
+  }
+
+  /**
+   * Check a /model choice, failing with a ValidationError when it is unknown
+   *
+   * Choices are one of `listModels()`, or the name of a model a provider
+   * lists, which goes to the first such provider.
+   */
+  validateModel(name: string): void {
+    this.parseModel(name);
+
+    if (!this.choices.includes(name) && !this.modelProviders.has(name)) {
+      throw new ValidationError(
+        `Unknown model "${name}", available: ${this.choices.join(", ")}`,
+      );
+    }
+  }
+
+  /**
+   * List the configured models as `/model` choices
+   */
+  listModels(): string[] {
+    return [...this.choices];
+  }
+
+  /**
+   * Get the largest context window of the models requests may be routed to
+   */
+  getLargestContextWindow(): number {
+    const routes = [
+      this.toRoute({
+        provider: DEFAULT_PROVIDER,
+        model: this.config.modelName,
+      }),
+      ...this.choices.map((choice) => this.toRoute(this.parseModel(choice))),
+      ...this.rules.map((rule) =>
+        this.toRoute(
+          rule.provider
+            ? { provider: rule.provider, model: rule.model }
+            : this.parseModel(rule.model),
+        ),
+      ),
+      ...this.fallbacks.map((fallback) => this.toRoute(fallback)),
+    ];
+
+    return Math.max(...routes.map((route) => route.contextWindow));
+  }
+
+  /**
+   * Get the client of the default provider
+   */
+  getDefaultClient(): MoltbotClient {
+    return this.clients.get(DEFAULT_PROVIDER)!;
+  }
+
+  /**
+   * Split a model choice into provider and model
+   */
+  private parseModel(name: string): { provider: string; model: string } {
+    const separator = name.indexOf("/");
+    const provider = separator > 0 ? name.slice(0, separator) : undefined;
+
+    // Model names may contain slashes themselves, such as "meta-llama/..."
+    if (provider && this.clients.has(provider)) {
+      const model = name.slice(separator + 1);
+      if (!model) {
+        throw new ValidationError(`Missing model name after "${provider}/"`);
+      }
+      return { provider, model };
+    }
+
+    return {
+      provider: this.modelProviders.get(name) || DEFAULT_PROVIDER,
+      model: name,
+    };
+  }
+
+  private toRoute(choice: { provider: string; model: string }): ModelRoute {
+    return {
+      ...choice,
+      client: this.clients.get(choice.provider)!,
+      contextWindow: getContextWindow(
+        choice.model,
+        this.contextWindows[choice.model] ??
+          this.providerContextWindows.get(choice.provider),
+      ),
+    };
+  }
+
+  /**
+   * List the routed model followed by the fallbacks, without repeats
+   */
+  private candidates(route: ModelRoute): ModelRoute[] {
+    const candidates = [route];
+
+    for (const fallback of this.fallbacks) {
+      if (
+        !candidates.some(
+          (candidate) =>
+            candidate.provider === fallback.provider &&
+            candidate.model === fallback.model,
+        )
+      ) {
+        candidates.push(this.toRoute(fallback));
+      }
+    }
+
+    return candidates;
+  }
+}
+
+/**
+ * Wait for the first part of a streamed answer
+ *
+ * A stream whose endpoint fails before sending anything rejects here, while
+ * it can still fail over; the returned stream replays the part. A tool call
+ * counts as sent, so tools never run twice.
+ */
+export async function awaitFirstChunk(
+  response: MoltbotStreamResponse,
+): Promise<MoltbotStreamResponse> {
+  const iterator = response.parts[Symbol.asyncIterator]();
+  const first = await iterator.next();
+
+  async function* replay(): AsyncIterable<MoltbotStreamPart> {
+    if (first.done) {
+      return;
+    }
+
+    // A reader stopping early must close the source too, freeing its slot
+    try {
+      yield first.value;
+
+      for (;;) {
+        const next = await iterator.next();
+        if (next.done) {
+          return;
+        }
+        yield next.value;
+      }
+    } finally {
+      await iterator.return?.();
+    }
+  }
+
+  return { ...response, parts: replay() };
+}
+
+/**
+ * Check if an error means the endpoint is unhealthy, rather than the request
+ *
+ * A full local queue says nothing about the endpoint.
+ */
+function isEndpointFailure(error: unknown): boolean {
+  return (
+    error instanceof MoltbotError &&
+    error.isTransient &&
+    !(error instanceof ModelBusyError)
+  );
+}
+
+/**
+ * Check if a routing rule applies to a request
+ *
+ * Every condition the rule sets must hold; a rule without conditions always
+ * matches.
+ */
+function matches(rule: RoutingRule, request: RouteRequest): boolean {
+  const isIn = (values: string[] | undefined, value: string | undefined) =>
+    !values || (value !== undefined && values.includes(value));
+
+  return (
+    isIn(rule.chatIds, request.chatId) &&
+    isIn(rule.chatTypes, request.chatType) &&
+    isIn(rule.senderIds, request.senderId) &&
+    (!rule.messageTypes ||
+      (request.messageTypes || []).some((type) =>
+        rule.messageTypes!.includes(type),
+      ))
+  );
+}
@@ -0,0 +1,82 @@
+import { z } from "zod";
+import { clockPlugin, defineTool, ToolRegistry } from "./tools";
+
+const config = {
+  enabled: true,
+  maxSteps: 3,
+  defaultTools: ["echo"],
+  chats: { quiet: [] as string[], clock: ["current_time"] },
+};
+
+const echo = defineTool({
+  name: "echo",
+  description: "Echo a text",
+  parameters: z.object({ text: z.string() }),
+  progress: "Echoing",
+  execute: async ({ text }) => ({ text }),
+});
+
+const failing = defineTool({
+  name: "fail",
+  description: "Always fails",
+  parameters: z.object({}),
+  execute: async () => {
+    throw new Error("boom");
+  },
+});
+
+const options = { toolCallId: "1", messages: [] };
+
+describe("ToolRegistry", () => {
+  it("offers the default tools to chats that are not listed", () => {
+    const registry = new ToolRegistry(config).register(echo).use(clockPlugin);
+
+    expect(Object.keys(registry.getTools({ chatId: "any" })!)).toEqual([
+      "echo",
+    ]);
+    expect(Object.keys(registry.getTools({ chatId: "clock" })!)).toEqual([
+      "current_time",
+    ]);
+  });
+
+  it("offers no tools when disabled or turned off in a chat", () => {
+    const registry = new ToolRegistry(config).register(echo);
+
+    expect(registry.getTools({ chatId: "quiet" })).toBeUndefined();
+    expect(
+      new ToolRegistry({ ...config, enabled: false })
+        .register(echo)
+        .getTools({ chatId: "any" }),
+    ).toBeUndefined();
+  });
+
+  it("skips enabled tools that are not registered", () => {
+    const registry = new ToolRegistry({ ...config, defaultTools: ["missing"] });
+
+    expect(registry.getTools({ chatId: "any" })).toBeUndefined();
+  });
+
+  it("runs tools and returns failures to the model", async () => {
+    const registry = new ToolRegistry({
+      ...config,
+      defaultTools: ["echo", "fail"],
+    })
+      .register(echo)
+      .register(failing);
+    const tools = registry.getTools({ chatId: "any", senderId: "ou_1" })!;
+
+    await expect(tools.echo.execute!({ text: "hi" }, options)).resolves.toEqual(
+      { text: "hi" },
+    );
+    await expect(tools.fail.execute!({}, options)).resolves.toEqual({
+      error: "boom",
+    });
+  });
+
+  it("describes tool progress", () => {
+    const registry = new ToolRegistry(config).register(echo);
+
+    expect(registry.describe("echo")).toBe("Echoing");
+    expect(registry.describe("other")).toBe("Running other");
+  });
+});
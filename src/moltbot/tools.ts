@@ -0,0 +1,220 @@
+import { tool } from "ai";
+import type { ToolSet } from "ai";
+import { z } from "zod";
+import { getLogger } from "../utils/logger";
+import { withSpan } from "../utils/tracing";
+import type { ToolsConfig } from "../config";
+
+const logger = getLogger();
+
+// Longest tool result kept in the audit log
+const MAX_LOGGED_RESULT_LENGTH = 2000;
+
+/**
+ * Who a tool call is made for
+ */
+export interface ToolContext {
+  chatId: string;
+  senderId?: string;
+}
+
+/**
+ * Tool the model may call, with zod-typed parameters
+ */
+export interface ToolDefinition<P extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  parameters: P;
+  progress?: string; // Shown while the tool runs, e.g. "Looking up the weather"
+  execute: (args: z.infer<P>, context: ToolContext) => Promise<unknown>;
+}
+
+/**
+ * Set of tools registered together
+ */
+export interface ToolPlugin {
+  name: string;
+  tools: ToolDefinition<any>[];
+}
+
+/**
+ * Define a tool, inferring the type of its arguments from the parameters
+ */
+export function defineTool<P extends z.ZodTypeAny>(
+  definition: ToolDefinition<P>,
+): ToolDefinition<P> {
+  return definition;
+}
+
+/**
+ * Registry of the tools plugins offer to the model
+ *
+ * Tools are only offered in chats that enable them in the `tools` config.
+ * Every call is logged with its arguments and result for audit.
+ */
+export class ToolRegistry {
+  private tools: Map<string, ToolDefinition<any>> = new Map();
+
+  constructor(private config: ToolsConfig) {}
+
+  /**
+   * Register the tools of a plugin
+   */
+  use(plugin: ToolPlugin): this {
+    for (const definition of plugin.tools) {
+      this.register(definition);
+    }
+
+    logger.debug("Registered tool plugin", {
+      plugin: plugin.name,
+      tools: plugin.tools.map((definition) => definition.name),
+    });
+
+    return this;
+  }
+
+  /**
+   * Register a tool
+   */
+  register(definition: ToolDefinition<any>): this {
+    if (this.tools.has(definition.name)) {
+      logger.warn("Replacing tool", { tool: definition.name });
+    }
+
+    this.tools.set(definition.name, definition);
+    logger.debug("Registered tool", { tool: definition.name });
+
+    return this;
+  }
+
+  /**
+   * Get the tools enabled in a chat, or undefined when there are none
+   */
+  getTools(context: ToolContext): ToolSet | undefined {
+    if (!this.config.enabled) {
+      return undefined;
+    }
+
+    const names = this.config.chats[context.chatId] ?? this.config.defaultTools;
+    const tools: ToolSet = {};
+
+    for (const name of names) {
+      const definition = this.tools.get(name);
+      if (!definition) {
+        logger.warn("Enabled tool is not registered", {
+          chatId: context.chatId,
+          tool: name,
+        });
+        continue;
+      }
+
+      tools[name] = tool({
+        description: definition.description,
+        parameters: definition.parameters,
+        execute: (args) => this.execute(definition, args, context),
+      });
+    }
+
+    return Object.keys(tools).length > 0 ? tools : undefined;
+  }
+
+  /**
+   * Get the progress label of a tool
+   */
+  describe(toolName: string): string {
+    return this.tools.get(toolName)?.progress || `Running ${toolName}`;
+  }
+
+  /**
+   * Get the maximum number of model calls per answer
+   */
+  getMaxSteps(): number {
+    return this.config.maxSteps;
+  }
+
+  /**
+   * Run a tool call, logging it for audit
+   *
+   * Failures are returned to the model as an error result, so that it can
+   * answer without the tool.
+   */
+  private async execute(
+    definition: ToolDefinition<any>,
+    args: unknown,
+    context: ToolContext,
+  ): Promise<unknown> {
+    const startedAt = Date.now();
+
+    return withSpan(
+      "tool.execute",
+      { "tool.name": definition.name, "lark.chat_id": context.chatId },
+      async () => {
+        try {
+          const result = await definition.execute(args, context);
+
+          logger.info("Tool call completed", {
+            chatId: context.chatId,
+            senderId: context.senderId,
+            tool: definition.name,
+            args,
+            result: truncate(JSON.stringify(result) ?? "undefined"),
+            durationMs: Date.now() - startedAt,
+          });
+
+          return result;
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+
+          logger.warn("Tool call failed", {
+            chatId: context.chatId,
+            senderId: context.senderId,
+            tool: definition.name,
+            args,
+            error: message,
+            durationMs: Date.now() - startedAt,
+          });
+
+          return { error: message };
+        }
+      },
+    );
+  }
+}
+
+/**
+ * Shorten a logged result
+ */
+function truncate(text: string): string {
+  return text.length > MAX_LOGGED_RESULT_LENGTH
+    ? `${text.slice(0, MAX_LOGGED_RESULT_LENGTH)}…`
+    : text;
+}
+
+/**
+ * Built-in plugin telling the model the current date and time
+ */
+export const clockPlugin: ToolPlugin = {
+  name: "clock",
+  tools: [
+    defineTool({
+      name: "current_time",
+      description: "Get the current date and time in a time zone",
+      parameters: z.object({
+        timeZone: z
+          .string()
+          .optional()
+          .describe("IANA time zone, such as Asia/Shanghai; UTC by default"),
+      }),
+      progress: "Checking the time",
+      execute: async ({ timeZone }) => {
+        const zone = timeZone || "UTC";
+        return {
+          timeZone: zone,
+          time: new Date().toLocaleString("en-US", { timeZone: zone }),
+          iso: new Date().toISOString(),
+        };
+      },
+    }),
+  ],
+};
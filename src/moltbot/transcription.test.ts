@@ -0,0 +1,89 @@
+import {
+  AttachmentError,
+  MoltbotConnectionError,
+  MoltbotError,
+} from "../utils/errors";
+import { TranscriptionClient } from "./transcription";
+
+const config = {
+  enabled: true,
+  apiEndpoint: "http://localhost:1/v1/",
+  apiKey: "key",
+  model: "whisper-1",
+  echoTranscript: false,
+  maxAudioBytes: 1024,
+  timeoutMs: 20,
+};
+
+describe("TranscriptionClient", () => {
+  const fetchMock = jest.spyOn(global, "fetch");
+
+  afterEach(() => {
+    fetchMock.mockReset();
+  });
+
+  afterAll(() => {
+    fetchMock.mockRestore();
+  });
+
+  it("returns the transcript and the tokens it cost", async () => {
+    fetchMock.mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          text: " hello ",
+          usage: { input_tokens: 3, output_tokens: 2 },
+        }),
+      ),
+    );
+
+    const result = await new TranscriptionClient(config).transcribe(
+      Buffer.from("audio"),
+    );
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "http://localhost:1/v1/audio/transcriptions",
+      expect.objectContaining({ method: "POST" }),
+    );
+    expect(result).toEqual({
+      text: "hello",
+      usage: { promptTokens: 3, completionTokens: 2, totalTokens: 5 },
+    });
+  });
+
+  it("gives up on slow requests with a message for the sender", async () => {
+    fetchMock.mockImplementation(
+      (_url, init) =>
+        new Promise((_resolve, reject) => {
+          init?.signal?.addEventListener("abort", () =>
+            reject(init.signal?.reason),
+          );
+        }),
+    );
+
+    const error = await new TranscriptionClient(config)
+      .transcribe(Buffer.from("audio"))
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(AttachmentError);
+    expect((error as Error).message).toMatch(/took too long/);
+  });
+
+  it("reports connection failures as transient", async () => {
+    fetchMock.mockRejectedValue(new TypeError("fetch failed"));
+
+    await expect(
+      new TranscriptionClient(config).transcribe(Buffer.from("audio")),
+    ).rejects.toBeInstanceOf(MoltbotConnectionError);
+  });
+
+  it("reports rejected requests with their status", async () => {
+    fetchMock.mockResolvedValue(new Response("busy", { status: 429 }));
+
+    const error = await new TranscriptionClient(config)
+      .transcribe(Buffer.from("audio"))
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(MoltbotError);
+    expect(error).toMatchObject({ moltbotCode: "429", isTransient: true });
+  });
+});
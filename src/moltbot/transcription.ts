@@ -0,0 +1,139 @@
+import { getLogger } from "../utils/logger";
+import {
+  AttachmentError,
+  MoltbotError,
+  MoltbotConnectionError,
+} from "../utils/errors";
+import type { TranscriptionConfig } from "../config";
+
+const logger = getLogger();
+
+/**
+ * Transcript of an audio file and the tokens it cost, when the API reports them
+ */
+export interface TranscriptionResult {
+  text: string;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+}
+
+/**
+ * Speech-to-text client for OpenAI-compatible `/audio/transcriptions` APIs
+ */
+export class TranscriptionClient {
+  constructor(private config: TranscriptionConfig) {
+    logger.info("Transcription client initialized", {
+      apiEndpoint: config.apiEndpoint,
+      model: config.model,
+      language: config.language,
+      timeoutMs: config.timeoutMs,
+    });
+  }
+
+  /**
+   * Transcribe an audio file to text
+   */
+  async transcribe(
+    audio: Buffer,
+    fileName: string = "voice.ogg",
+    mimeType: string = "audio/ogg",
+  ): Promise<TranscriptionResult> {
+    const form = new FormData();
+    form.append("file", new Blob([audio], { type: mimeType }), fileName);
+    form.append("model", this.config.model);
+    form.append("response_format", "json");
+    if (this.config.language) {
+      form.append("language", this.config.language);
+    }
+
+    const url = `${this.config.apiEndpoint.replace(/\/+$/, "")}/audio/transcriptions`;
+
+    let response: Response;
+    try {
+      logger.debug("Sending transcription request", {
+        size: audio.length,
+        model: this.config.model,
+      });
+
+      response = await fetch(url, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.config.apiKey}`,
+        },
+        body: form,
+        signal: AbortSignal.timeout(this.config.timeoutMs),
+      });
+    } catch (error) {
+      throw this.toRequestError(error);
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      logger.error("Transcription request rejected", {
+        status: response.status,
+        body: body.slice(0, 500),
+      });
+      throw new MoltbotError(
+        `Transcription failed with status ${response.status}`,
+        String(response.status),
+        response.status >= 500 || response.status === 429,
+      );
+    }
+
+    let result: {
+      text?: string;
+      // Token-billed models report usage; duration-billed ones don't
+      usage?: { input_tokens?: number; output_tokens?: number };
+    };
+    try {
+      result = (await response.json()) as typeof result;
+    } catch (error) {
+      throw this.toRequestError(error);
+    }
+    const text = (result.text || "").trim();
+
+    logger.debug("Received transcription", { textLength: text.length });
+
+    const promptTokens = result.usage?.input_tokens || 0;
+    const completionTokens = result.usage?.output_tokens || 0;
+    return {
+      text,
+      usage:
+        promptTokens + completionTokens > 0
+          ? {
+              promptTokens,
+              completionTokens,
+              totalTokens: promptTokens + completionTokens,
+            }
+          : undefined,
+    };
+  }
+
+  /**
+   * Map a failed or timed out request to the error shown to the sender
+   */
+  private toRequestError(error: unknown): Error {
+    const message = error instanceof Error ? error.message : String(error);
+    const cause = error instanceof Error ? error : undefined;
+
+    // The abort reason is a DOMException, not always an Error of this realm
+    if ((error as { name?: string } | undefined)?.name === "TimeoutError") {
+      logger.warn("Transcription request timed out", {
+        timeoutMs: this.config.timeoutMs,
+      });
+      return new AttachmentError(
+        "Transcribing the voice message took too long. Please try again or send text instead.",
+        cause,
+      );
+    }
+
+    logger.error("Transcription request failed", { error: message });
+    return new MoltbotConnectionError(
+      `Transcription connection error: ${message}`,
+      cause,
+    );
+  }
+}
@@ -2,18 +2,40 @@
  * Moltbot types and interfaces
  */
 
+import type { ToolSet } from "ai";
+
 // Moltbot message types
 export interface MoltbotMessage {
   role: "system" | "user" | "assistant";
-  content: string;
+  content: string | MoltbotContentPart[]; // Parts only for user messages
+}
+
+// Multimodal content parts
+export interface MoltbotTextPart {
+  type: "text";
+  text: string;
 }
 
+export interface MoltbotImagePart {
+  type: "image";
+  image: string; // Base64 encoded image data
+  mimeType?: string;
+}
+
+export type MoltbotContentPart = MoltbotTextPart | MoltbotImagePart;
+
 // Moltbot stream chunk
 export interface MoltbotStreamChunk {
   text: string;
   isComplete: boolean;
 }
 
+// Moltbot stream part: answer text, or the progress of a tool call
+export type MoltbotStreamPart =
+  | { type: "text"; text: string }
+  | { type: "tool-call"; toolCallId: string; toolName: string }
+  | { type: "tool-result"; toolCallId: string; toolName: string };
+
 // Moltbot request options
 export interface MoltbotRequestOptions {
   model: string;
@@ -21,6 +43,9 @@ export interface MoltbotRequestOptions {
   temperature?: number;
   maxTokens?: number;
   stream?: boolean;
+  abortSignal?: AbortSignal;
+  tools?: ToolSet; // Tools the model may call
+  maxSteps?: number; // Model calls per answer, tool calls included
 }
 
 // Moltbot response
@@ -36,7 +61,7 @@ export interface MoltbotResponse {
 
 // Moltbot stream response
 export interface MoltbotStreamResponse {
-  textStream: AsyncIterable<string>;
+  parts: AsyncIterable<MoltbotStreamPart>;
   text: Promise<string>;
   finishReason: Promise<string | undefined>;
   usage: Promise<
@@ -60,6 +85,7 @@ export interface ParsedMessageForMoltbot {
 export interface MessageAttachment {
   type: "image" | "file" | "audio" | "video";
   key: string;
+  messageId: string; // Message the resource is downloaded from
   url?: string;
   name?: string;
   size?: number;
@@ -103,7 +129,9 @@ export interface LarkCardAction {
 
 // Stream processing options
 export interface StreamProcessingOptions {
-  chunkThreshold?: number; // Characters before sending partial update
-  timeThreshold?: number; // Milliseconds before sending partial update
+  chunkThreshold?: number; // New characters needed for a partial update
+  timeThreshold?: number; // Milliseconds between partial updates, at least
   sendPartialUpdates?: boolean;
+  abortSignal?: AbortSignal; // Stops reading the stream when aborted
+  describeTool?: (toolName: string) => string; // Progress label of a tool call
 }
@@ -0,0 +1,83 @@
+import { HealthEndpoints } from "./health";
+import type { HealthChecks } from "./health";
+import type { HttpRequest, HttpRouteHandler, HttpServer } from "./http";
+
+/**
+ * Register the endpoints on a stand-in server and return a caller
+ */
+function createEndpoints(checks: Partial<HealthChecks> = {}) {
+  const routes: Map<string, HttpRouteHandler> = new Map();
+  const server = {
+    route(method: string, path: string, handler: HttpRouteHandler) {
+      routes.set(`${method} ${path}`, handler);
+      return server;
+    },
+  };
+  const probeModel = jest.fn(async () => undefined);
+  const health = new HealthEndpoints({
+    isEventSourceReady: () => true,
+    probeModel,
+    getStatus: () => ({ conversations: 2 }),
+    ...checks,
+  }).register(server as unknown as HttpServer);
+
+  const get = (path: string) =>
+    routes.get(`GET ${path}`)!({ path } as HttpRequest);
+
+  return { health, get, probeModel };
+}
+
+describe("HealthEndpoints", () => {
+  it("is ready when events arrive and a model answers", async () => {
+    const { get } = createEndpoints();
+
+    await expect(get("/healthz")).resolves.toMatchObject({ status: 200 });
+    await expect(get("/readyz")).resolves.toMatchObject({
+      status: 200,
+      body: { status: "ready" },
+    });
+  });
+
+  it("answers 503 once shutdown has begun", async () => {
+    const { health, get } = createEndpoints();
+
+    health.markShuttingDown();
+
+    await expect(get("/readyz")).resolves.toMatchObject({
+      status: 503,
+      body: { checks: { shuttingDown: true } },
+    });
+    await expect(get("/healthz")).resolves.toMatchObject({ status: 200 });
+  });
+
+  it("answers 503 when no model endpoint is reachable", async () => {
+    const { get } = createEndpoints({
+      probeModel: async () => {
+        throw new Error("ECONNREFUSED");
+      },
+    });
+
+    await expect(get("/readyz")).resolves.toMatchObject({
+      status: 503,
+      body: { checks: { model: false, modelError: "ECONNREFUSED" } },
+    });
+  });
+
+  it("reuses a recent model probe", async () => {
+    const { get, probeModel } = createEndpoints();
+
+    await Promise.all([get("/readyz"), get("/readyz")]);
+    await get("/readyz");
+
+    expect(probeModel).toHaveBeenCalledTimes(1);
+  });
+
+  it("includes the application status", async () => {
+    const { get } = createEndpoints();
+
+    await expect(get("/status")).resolves.toMatchObject({
+      status: 200,
+      body: { conversations: 2, shuttingDown: false },
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import * as fs from "fs";
+import * as path from "path";
+import { getLogger } from "../utils/logger";
+import type { HttpServer, HttpResponse } from "./http";
+
+const logger = getLogger();
+
+/**
+ * Checks and status sources of the health endpoints
+ */
+export interface HealthChecks {
+  isEventSourceReady: () => boolean; // Lark connection or webhook is up
+  probeModel: () => Promise<void>; // Throws when no model endpoint is up
+  getStatus: () => Record<string, unknown>; // Extra fields of /status
+}
+
+/**
+ * Health endpoint options
+ */
+export interface HealthEndpointsOptions {
+  probeCacheMs?: number; // How long a model probe result is reused
+}
+
+/**
+ * Cached result of the last model probe
+ */
+interface ProbeResult {
+  ok: boolean;
+  error?: string;
+  checkedAt: number;
+}
+
+/**
+ * Liveness, readiness and status endpoints for orchestrators
+ *
+ * `/healthz` answers as long as the process runs, `/readyz` when Lark events
+ * are received and a model endpoint is reachable, and `/status` reports
+ * uptime, version and the fields supplied by the application.
+ */
+export class HealthEndpoints {
+  private probeCacheMs: number;
+  private lastProbe?: ProbeResult;
+  private pendingProbe?: Promise<ProbeResult>;
+  private isShuttingDown: boolean = false;
+  private version: string = readVersion();
+
+  constructor(
+    private checks: HealthChecks,
+    options: HealthEndpointsOptions = {},
+  ) {
+    this.probeCacheMs = options.probeCacheMs ?? 10000;
+  }
+
+  /**
+   * Register the endpoints on a server
+   */
+  register(server: HttpServer): this {
+    server
+      .route("GET", "/healthz", async () => ({
+        status: 200,
+        body: { status: "ok" },
+      }))
+      .route("GET", "/readyz", () => this.handleReadiness())
+      .route("GET", "/status", () => this.handleStatus());
+
+    return this;
+  }
+
+  /**
+   * Report not ready from now on, so traffic drains before shutdown
+   */
+  markShuttingDown(): void {
+    this.isShuttingDown = true;
+  }
+
+  /**
+   * Answer 200 when all dependencies are ready, otherwise 503
+   */
+  private async handleReadiness(): Promise<HttpResponse> {
+    const eventSource = this.checks.isEventSourceReady();
+    const model = await this.probeModel();
+    const ready = !this.isShuttingDown && eventSource && model.ok;
+
+    return {
+      status: ready ? 200 : 503,
+      body: {
+        status: ready ? "ready" : "not ready",
+        checks: {
+          shuttingDown: this.isShuttingDown,
+          larkEvents: eventSource,
+          model: model.ok,
+          ...(model.error ? { modelError: model.error } : {}),
+        },
+      },
+    };
+  }
+
+  /**
+   * Describe the running instance
+   */
+  private async handleStatus(): Promise<HttpResponse> {
+    return {
+      status: 200,
+      body: {
+        version: this.version,
+        uptimeSeconds: Math.floor(process.uptime()),
+        startedAt: new Date(Date.now() - process.uptime() * 1000).toISOString(),
+        shuttingDown: this.isShuttingDown,
+        larkEvents: this.checks.isEventSourceReady(),
+        model: this.lastProbe,
+        ...this.checks.getStatus(),
+      },
+    };
+  }
+
+  /**
+   * Probe the model endpoint, reusing a recent result
+   *
+   * Concurrent callers share one probe so frequent readiness checks don't
+   * flood the endpoint.
+   */
+  private async probeModel(): Promise<ProbeResult> {
+    if (
+      this.lastProbe &&
+      Date.now() - this.lastProbe.checkedAt < this.probeCacheMs
+    ) {
+      return this.lastProbe;
+    }
+
+    if (!this.pendingProbe) {
+      this.pendingProbe = this.checks
+        .probeModel()
+        .then(
+          (): ProbeResult => ({ ok: true, checkedAt: Date.now() }),
+          (error): ProbeResult => {
+            logger.warn("Model endpoint probe failed", {
+              error: error instanceof Error ? error.message : String(error),
+            });
+            return {
+              ok: false,
+              error: error instanceof Error ? error.message : String(error),
+              checkedAt: Date.now(),
+            };
+          },
+        )
+        .then((result) => {
+          this.lastProbe = result;
+          this.pendingProbe = undefined;
+          return result;
+        });
+    }
+
+    return this.pendingProbe;
+  }
+}
+
+/**
+ * Read the package version, from the source or the build directory
+ */
+function readVersion(): string {
+  try {
+    const packageJson = JSON.parse(
+      fs.readFileSync(
+        path.join(__dirname, "..", "..", "package.json"),
+        "utf-8",
+      ),
+    );
+    return packageJson.version || "unknown";
+  } catch {
+    return "unknown";
+  }
+}
@@ -0,0 +1,195 @@
+import * as http from "http";
+import { getLogger, createChildLogger } from "../utils/logger";
+import type { ServerConfig } from "../config";
+
+const logger = getLogger();
+
+// Requests with a larger body are rejected before they are parsed
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Incoming HTTP request passed to route handlers
+ */
+export interface HttpRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Response returned by route handlers
+ */
+export interface HttpResponse {
+  status: number;
+  body?: string | object;
+  headers?: Record<string, string>;
+}
+
+export type HttpRouteHandler = (request: HttpRequest) => Promise<HttpResponse>;
+
+/**
+ * Minimal HTTP server with exact-path routing
+ */
+export class HttpServer {
+  private server: http.Server;
+  private routes: Map<string, HttpRouteHandler> = new Map();
+  private isListening: boolean = false;
+
+  constructor(private config: ServerConfig) {
+    this.server = http.createServer((req, res) => {
+      this.handleRequest(req, res);
+    });
+  }
+
+  /**
+   * Register a handler for a method and path
+   */
+  route(method: string, path: string, handler: HttpRouteHandler): this {
+    this.routes.set(`${method.toUpperCase()} ${path}`, handler);
+    logger.debug("HTTP route registered", { method, path });
+    return this;
+  }
+
+  /**
+   * Start listening on the configured host and port
+   */
+  async start(): Promise<void> {
+    if (this.isListening) {
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(this.config.port, this.config.host, () => {
+        this.server.off("error", reject);
+        resolve();
+      });
+    });
+
+    this.isListening = true;
+
+    logger.info("HTTP server listening", {
+      host: this.config.host,
+      port: this.config.port,
+    });
+  }
+
+  /**
+   * Stop accepting connections
+   */
+  async stop(): Promise<void> {
+    if (!this.isListening) {
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      this.server.close((error) => (error ? reject(error) : resolve()));
+    });
+
+    this.isListening = false;
+
+    logger.info("HTTP server stopped");
+  }
+
+  /**
+   * Check if the server is accepting connections
+   */
+  isReady(): boolean {
+    return this.isListening;
+  }
+
+  /**
+   * Read the body, dispatch to the matching route and write the response
+   */
+  private async handleRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    const url = new URL(req.url || "/", "http://localhost");
+    const method = (req.method || "GET").toUpperCase();
+    const childLogger = createChildLogger({ method, path: url.pathname });
+
+    try {
+      const handler = this.routes.get(`${method} ${url.pathname}`);
+      if (!handler) {
+        this.writeResponse(res, { status: 404, body: { error: "Not found" } });
+        return;
+      }
+
+      const body = await this.readBody(req);
+      if (body === undefined) {
+        this.writeResponse(res, {
+          status: 413,
+          body: { error: "Payload too large" },
+        });
+        return;
+      }
+
+      const response = await handler({
+        method,
+        path: url.pathname,
+        query: url.searchParams,
+        headers: req.headers,
+        body,
+      });
+
+      this.writeResponse(res, response);
+    } catch (error) {
+      childLogger.error("Failed to handle HTTP request", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      this.writeResponse(res, {
+        status: 500,
+        body: { error: "Internal server error" },
+      });
+    }
+  }
+
+  /**
+   * Read the request body, or return undefined if it exceeds the limit
+   */
+  private readBody(req: http.IncomingMessage): Promise<string | undefined> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      let tooLarge = false;
+
+      req.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          tooLarge = true;
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on("end", () =>
+        resolve(tooLarge ? undefined : Buffer.concat(chunks).toString("utf-8")),
+      );
+      req.on("error", reject);
+    });
+  }
+
+  /**
+   * Write a handler response, serializing object bodies as JSON
+   */
+  private writeResponse(
+    res: http.ServerResponse,
+    response: HttpResponse,
+  ): void {
+    const isJson =
+      response.body !== undefined && typeof response.body !== "string";
+    const body = isJson
+      ? JSON.stringify(response.body)
+      : ((response.body as string | undefined) ?? "");
+
+    res.writeHead(response.status, {
+      "Content-Type": isJson
+        ? "application/json; charset=utf-8"
+        : "text/plain; charset=utf-8",
+      ...response.headers,
+    });
+    res.end(body);
+  }
+}
@@ -0,0 +1,82 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { EventDeduplicator } from "../bridge/dedupe";
+import { JsonFileStore } from "./file";
+
+describe("JsonFileStore", () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "store-"));
+    filePath = path.join(directory, "test.json");
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("round-trips values", () => {
+    const store = new JsonFileStore<{ count: number }>(filePath);
+
+    store.set("a", { count: 1 });
+    store.set("b", { count: 2 });
+    expect(store.delete("b")).toBe(true);
+    expect(store.delete("b")).toBe(false);
+
+    expect(store.get("a")).toEqual({ count: 1 });
+    expect(store.has("b")).toBe(false);
+    expect(store.entries()).toEqual([["a", { count: 1 }]]);
+    expect(store.size()).toBe(1);
+    store.close();
+  });
+
+  it("batches writes until the flush delay has passed", () => {
+    jest.useFakeTimers();
+    const store = new JsonFileStore<number>(filePath, 1000);
+
+    for (let i = 0; i < 10; i++) {
+      store.set(`key${i}`, i);
+    }
+    jest.advanceTimersByTime(999);
+    expect(fs.existsSync(filePath)).toBe(false);
+
+    jest.advanceTimersByTime(1);
+    expect(new JsonFileStore<number>(filePath).size()).toBe(10);
+    store.close();
+  });
+
+  it("keeps values across instances once closed", () => {
+    const store = new JsonFileStore<string>(filePath, 60000);
+    store.set("a", "first");
+    store.set("b", "second");
+    store.delete("b");
+    store.close();
+
+    const reopened = new JsonFileStore<string>(filePath);
+
+    expect(reopened.entries()).toEqual([["a", "first"]]);
+    reopened.close();
+  });
+
+  it("drops expired entries and keeps the rest across instances", () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, "now").mockReturnValue(now);
+    const deduplicator = new EventDeduplicator({
+      store: new JsonFileStore<number>(filePath),
+      ttlHours: 1,
+    });
+    deduplicator.isDuplicate(["old"]);
+    clock.mockReturnValue(now + 30 * 60 * 1000);
+    deduplicator.isDuplicate(["new"]);
+
+    clock.mockReturnValue(now + 75 * 60 * 1000);
+    expect(deduplicator.cleanup()).toBe(1);
+    deduplicator.close();
+
+    expect(new JsonFileStore<number>(filePath).keys()).toEqual(["new"]);
+    clock.mockRestore();
+  });
+});
@@ -0,0 +1,139 @@
+import * as fs from "fs";
+import * as path from "path";
+import { getLogger } from "../utils/logger";
+import { StorageError } from "../utils/errors";
+import type { KeyValueStore } from "./types";
+
+const logger = getLogger();
+
+// Wait after a change before writing, so a burst of changes is written once
+const DEFAULT_FLUSH_DELAY_MS = 1000;
+
+/**
+ * Store kept in memory and written to a JSON file shortly after it changes
+ *
+ * Changes within the flush delay are batched into one write, and pending
+ * changes are written on close. Writes go to a temporary file first and are
+ * renamed into place, so a crash mid-write never leaves a truncated file
+ * behind.
+ */
+export class JsonFileStore<V> implements KeyValueStore<V> {
+  private data: Map<string, V> = new Map();
+  private flushTimer?: NodeJS.Timeout; // Set while changes wait to be written
+
+  constructor(
+    private filePath: string,
+    private flushDelayMs: number = DEFAULT_FLUSH_DELAY_MS,
+  ) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.load();
+
+    logger.info("JSON file store opened", {
+      filePath,
+      entries: this.data.size,
+    });
+  }
+
+  get(key: string): V | undefined {
+    return this.data.get(key);
+  }
+
+  set(key: string, value: V): void {
+    this.data.set(key, value);
+    this.scheduleFlush();
+  }
+
+  delete(key: string): boolean {
+    const deleted = this.data.delete(key);
+    if (deleted) {
+      this.scheduleFlush();
+    }
+    return deleted;
+  }
+
+  has(key: string): boolean {
+    return this.data.has(key);
+  }
+
+  keys(): string[] {
+    return Array.from(this.data.keys());
+  }
+
+  entries(): Array<[string, V]> {
+    return Array.from(this.data.entries());
+  }
+
+  size(): number {
+    return this.data.size;
+  }
+
+  close(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+      this.flush();
+    }
+  }
+
+  /**
+   * Read the file into memory, starting empty if it does not exist
+   */
+  private load(): void {
+    try {
+      const content = fs.readFileSync(this.filePath, "utf-8");
+      const parsed = JSON.parse(content) as Record<string, V>;
+      this.data = new Map(Object.entries(parsed));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+      throw new StorageError(
+        `Failed to load store file ${this.filePath}`,
+        error instanceof Error ? error : undefined,
+      );
+    }
+  }
+
+  /**
+   * Write the store once the flush delay has passed since the first change
+   */
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      return;
+    }
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined;
+      try {
+        this.flush();
+      } catch (error) {
+        logger.error("Failed to flush JSON file store", {
+          filePath: this.filePath,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }, this.flushDelayMs);
+    this.flushTimer.unref();
+  }
+
+  /**
+   * Write the whole store to disk
+   */
+  private flush(): void {
+    const tempPath = `${this.filePath}.tmp`;
+
+    try {
+      fs.writeFileSync(
+        tempPath,
+        JSON.stringify(Object.fromEntries(this.data)),
+        "utf-8",
+      );
+      fs.renameSync(tempPath, this.filePath);
+    } catch (error) {
+      throw new StorageError(
+        `Failed to write store file ${this.filePath}`,
+        error instanceof Error ? error : undefined,
+      );
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import * as path from "path";
+import { MemoryStore } from "./memory";
+import { JsonFileStore } from "./file";
+import { SqliteStore } from "./sqlite";
+import type { StorageConfig } from "../config";
+import type { KeyValueStore } from "./types";
+
+export * from "./types";
+export { MemoryStore } from "./memory";
+export { JsonFileStore } from "./file";
+export { SqliteStore } from "./sqlite";
+
+// Database file used by the SQLite backend inside the storage directory
+const SQLITE_FILE_NAME = "moltbot.sqlite";
+
+/**
+ * Create a store for one namespace with the configured backend
+ *
+ * The file backend writes `<directory>/<namespace>.json`; the SQLite backend
+ * keeps every namespace as a table of one database file.
+ */
+export function createStore<V>(
+  config: StorageConfig,
+  namespace: string,
+): KeyValueStore<V> {
+  switch (config.type) {
+    case "file":
+      return new JsonFileStore<V>(
+        path.join(config.directory, `${namespace}.json`),
+      );
+
+    case "sqlite":
+      return new SqliteStore<V>(
+        path.join(config.directory, SQLITE_FILE_NAME),
+        namespace,
+      );
+
+    default:
+      return new MemoryStore<V>();
+  }
+}
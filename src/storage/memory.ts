@@ -0,0 +1,40 @@
+import type { KeyValueStore } from "./types";
+
+/**
+ * In-process store, lost when the process exits
+ */
+export class MemoryStore<V> implements KeyValueStore<V> {
+  private data: Map<string, V> = new Map();
+
+  get(key: string): V | undefined {
+    return this.data.get(key);
+  }
+
+  set(key: string, value: V): void {
+    this.data.set(key, value);
+  }
+
+  delete(key: string): boolean {
+    return this.data.delete(key);
+  }
+
+  has(key: string): boolean {
+    return this.data.has(key);
+  }
+
+  keys(): string[] {
+    return Array.from(this.data.keys());
+  }
+
+  entries(): Array<[string, V]> {
+    return Array.from(this.data.entries());
+  }
+
+  size(): number {
+    return this.data.size;
+  }
+
+  close(): void {
+    // Nothing to release
+  }
+}
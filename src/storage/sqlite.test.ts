@@ -0,0 +1,81 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { EventDeduplicator } from "../bridge/dedupe";
+import { SqliteStore } from "./sqlite";
+
+describe("SqliteStore", () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "store-"));
+    filePath = path.join(directory, "test.sqlite");
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("round-trips values", () => {
+    const store = new SqliteStore<{ count: number }>(filePath, "test");
+
+    store.set("a", { count: 1 });
+    store.set("b", { count: 2 });
+    store.set("b", { count: 3 });
+    expect(store.get("b")).toEqual({ count: 3 });
+    expect(store.delete("b")).toBe(true);
+    expect(store.delete("b")).toBe(false);
+
+    expect(store.get("a")).toEqual({ count: 1 });
+    expect(store.has("b")).toBe(false);
+    expect(store.entries()).toEqual([["a", { count: 1 }]]);
+    expect(store.size()).toBe(1);
+    store.close();
+  });
+
+  it("keeps tables of one file apart", () => {
+    const first = new SqliteStore<string>(filePath, "first");
+    const second = new SqliteStore<string>(filePath, "second");
+
+    first.set("a", "first");
+
+    expect(second.has("a")).toBe(false);
+    first.close();
+    second.close();
+  });
+
+  it("keeps values across instances", () => {
+    const store = new SqliteStore<string>(filePath, "test");
+    store.set("a", "first");
+    store.set("b", "second");
+    store.delete("b");
+    store.close();
+
+    const reopened = new SqliteStore<string>(filePath, "test");
+
+    expect(reopened.entries()).toEqual([["a", "first"]]);
+    reopened.close();
+  });
+
+  it("drops expired entries and keeps the rest across instances", () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, "now").mockReturnValue(now);
+    const deduplicator = new EventDeduplicator({
+      store: new SqliteStore<number>(filePath, "seen_events"),
+      ttlHours: 1,
+    });
+    deduplicator.isDuplicate(["old"]);
+    clock.mockReturnValue(now + 30 * 60 * 1000);
+    deduplicator.isDuplicate(["new"]);
+
+    clock.mockReturnValue(now + 75 * 60 * 1000);
+    expect(deduplicator.cleanup()).toBe(1);
+    deduplicator.close();
+
+    const reopened = new SqliteStore<number>(filePath, "seen_events");
+    expect(reopened.keys()).toEqual(["new"]);
+    reopened.close();
+    clock.mockRestore();
+  });
+});
@@ -0,0 +1,136 @@
+import * as fs from "fs";
+import * as path from "path";
+import Database from "better-sqlite3";
+import { getLogger } from "../utils/logger";
+import { StorageError } from "../utils/errors";
+import type { KeyValueStore } from "./types";
+
+const logger = getLogger();
+
+// Open databases shared by every table in the same file
+const databases: Map<string, { db: Database.Database; refs: number }> =
+  new Map();
+
+/**
+ * Store backed by one table of a SQLite database, values kept as JSON
+ */
+export class SqliteStore<V> implements KeyValueStore<V> {
+  private db: Database.Database;
+  private statements: {
+    get: Database.Statement;
+    set: Database.Statement;
+    delete: Database.Statement;
+    keys: Database.Statement;
+    entries: Database.Statement;
+    size: Database.Statement;
+  };
+
+  constructor(
+    private filePath: string,
+    private table: string,
+  ) {
+    if (!/^[a-z_][a-z0-9_]*$/.test(table)) {
+      throw new StorageError(`Invalid SQLite table name: ${table}`);
+    }
+
+    try {
+      this.db = openDatabase(filePath);
+      this.db.exec(
+        `CREATE TABLE IF NOT EXISTS ${table} (key TEXT PRIMARY KEY, value TEXT NOT NULL)`,
+      );
+
+      this.statements = {
+        get: this.db.prepare(`SELECT value FROM ${table} WHERE key = ?`),
+        set: this.db.prepare(
+          `INSERT INTO ${table} (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value`,
+        ),
+        delete: this.db.prepare(`DELETE FROM ${table} WHERE key = ?`),
+        keys: this.db.prepare(`SELECT key FROM ${table}`),
+        entries: this.db.prepare(`SELECT key, value FROM ${table}`),
+        size: this.db.prepare(`SELECT COUNT(*) AS count FROM ${table}`),
+      };
+    } catch (error) {
+      throw new StorageError(
+        `Failed to open SQLite store ${filePath}`,
+        error instanceof Error ? error : undefined,
+      );
+    }
+
+    logger.info("SQLite store opened", { filePath, table });
+  }
+
+  get(key: string): V | undefined {
+    const row = this.statements.get.get(key) as { value: string } | undefined;
+    return row ? (JSON.parse(row.value) as V) : undefined;
+  }
+
+  set(key: string, value: V): void {
+    this.statements.set.run(key, JSON.stringify(value));
+  }
+
+  delete(key: string): boolean {
+    return this.statements.delete.run(key).changes > 0;
+  }
+
+  has(key: string): boolean {
+    return this.statements.get.get(key) !== undefined;
+  }
+
+  keys(): string[] {
+    return (this.statements.keys.all() as Array<{ key: string }>).map(
+      (row) => row.key,
+    );
+  }
+
+  entries(): Array<[string, V]> {
+    return (
+      this.statements.entries.all() as Array<{ key: string; value: string }>
+    ).map((row) => [row.key, JSON.parse(row.value) as V]);
+  }
+
+  size(): number {
+    return (this.statements.size.get() as { count: number }).count;
+  }
+
+  close(): void {
+    closeDatabase(this.filePath);
+  }
+}
+
+/**
+ * Open a database file, reusing the connection if it is already open
+ */
+function openDatabase(filePath: string): Database.Database {
+  const resolved = path.resolve(filePath);
+  const existing = databases.get(resolved);
+
+  if (existing) {
+    existing.refs++;
+    return existing.db;
+  }
+
+  fs.mkdirSync(path.dirname(resolved), { recursive: true });
+  const db = new Database(resolved);
+  db.pragma("journal_mode = WAL");
+  databases.set(resolved, { db, refs: 1 });
+
+  return db;
+}
+
+/**
+ * Release a database file, closing it when no store uses it anymore
+ */
+function closeDatabase(filePath: string): void {
+  const resolved = path.resolve(filePath);
+  const existing = databases.get(resolved);
+
+  if (!existing) {
+    return;
+  }
+
+  existing.refs--;
+  if (existing.refs === 0) {
+    existing.db.close();
+    databases.delete(resolved);
+  }
+}
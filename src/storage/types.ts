@@ -0,0 +1,18 @@
+/**
+ * Storage types and interfaces
+ */
+
+// Synchronous key-value store holding JSON-serializable values
+export interface KeyValueStore<V> {
+  get(key: string): V | undefined;
+  set(key: string, value: V): void;
+  delete(key: string): boolean;
+  has(key: string): boolean;
+  keys(): string[];
+  entries(): Array<[string, V]>;
+  size(): number;
+  close(): void;
+}
+
+// Available storage backends
+export type StorageType = "memory" | "file" | "sqlite";
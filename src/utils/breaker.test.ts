@@ -0,0 +1,67 @@
+import { CircuitBreaker } from "./breaker";
+
+describe("CircuitBreaker", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  function createBreaker(): CircuitBreaker {
+    return new CircuitBreaker("test", {
+      failureThreshold: 2,
+      resetTimeoutMs: 1000,
+    });
+  }
+
+  it("opens after consecutive failures", () => {
+    const breaker = createBreaker();
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe("closed");
+    expect(breaker.canRequest()).toBe(true);
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe("open");
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it("counts only consecutive failures", () => {
+    const breaker = createBreaker();
+
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  it("lets one trial call through after the reset timeout", () => {
+    const breaker = createBreaker();
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    jest.advanceTimersByTime(1000);
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.getState()).toBe("half-open");
+    expect(breaker.canRequest()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  it("opens again when the trial call fails", () => {
+    const breaker = createBreaker();
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    jest.advanceTimersByTime(1000);
+    breaker.canRequest();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe("open");
+    expect(breaker.canRequest()).toBe(false);
+  });
+});
@@ -0,0 +1,97 @@
+import { getLogger } from "./logger";
+
+const logger = getLogger();
+
+/**
+ * Circuit breaker configuration
+ */
+export interface CircuitBreakerConfig {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  resetTimeoutMs: number; // How long an open circuit rejects calls
+}
+
+/**
+ * Circuit state: closed lets calls through, open rejects them, half-open
+ * lets a single trial call through
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Tracks the health of one endpoint from the outcome of its calls
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private failures: number = 0;
+  private openedAt: number = 0;
+
+  constructor(
+    private name: string,
+    private config: CircuitBreakerConfig,
+  ) {}
+
+  /**
+   * Check if a call may be made now
+   *
+   * Once the reset timeout has passed, an open circuit turns half-open and
+   * lets one trial call through; another one follows after each timeout until
+   * a trial's outcome is recorded.
+   */
+  canRequest(): boolean {
+    if (this.state === "closed") {
+      return true;
+    }
+
+    if (Date.now() - this.openedAt < this.config.resetTimeoutMs) {
+      return false;
+    }
+
+    if (this.state === "open") {
+      logger.info("Circuit half-open, trying endpoint again", {
+        circuit: this.name,
+      });
+    }
+    this.state = "half-open";
+    this.openedAt = Date.now();
+    return true;
+  }
+
+  /**
+   * Record a successful call, closing the circuit
+   */
+  recordSuccess(): void {
+    if (this.state !== "closed") {
+      logger.info("Circuit closed", { circuit: this.name });
+    }
+
+    this.state = "closed";
+    this.failures = 0;
+  }
+
+  /**
+   * Record a failed call, opening the circuit at the threshold
+   */
+  recordFailure(): void {
+    this.failures++;
+
+    if (
+      this.state === "half-open" ||
+      this.failures >= this.config.failureThreshold
+    ) {
+      if (this.state !== "open") {
+        logger.warn("Circuit opened", {
+          circuit: this.name,
+          failures: this.failures,
+        });
+      }
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * Get the current state
+   */
+  getState(): CircuitState {
+    return this.state;
+  }
+}
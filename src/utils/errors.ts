@@ -88,6 +88,14 @@ export class MoltbotStreamError extends MoltbotError {
   }
 }
 
+export class ModelBusyError extends MoltbotError {
+  constructor(message: string) {
+    super(message, undefined, true);
+    this.name = "ModelBusyError";
+    this.statusCode = 503;
+  }
+}
+
 // Bridge-related errors
 export class BridgeError extends AppError {
   constructor(message: string, originalError?: Error) {
@@ -104,6 +112,49 @@ export class TransformationError extends BridgeError {
   }
 }
 
+// Attachment errors
+export class AttachmentError extends BridgeError {
+  constructor(message: string, originalError?: Error) {
+    super(message, originalError);
+    this.name = "AttachmentError";
+    this.statusCode = 422;
+  }
+}
+
+export class QueueFullError extends BridgeError {
+  constructor(message: string) {
+    super(message);
+    this.name = "QueueFullError";
+    this.statusCode = 429;
+    this.isTransient = true;
+  }
+}
+
+// Usage limit errors
+export class RateLimitError extends BridgeError {
+  constructor(
+    message: string,
+    public readonly scope: "user" | "chat",
+    public readonly retryAfterMs: number,
+  ) {
+    super(message);
+    this.name = "RateLimitError";
+    this.statusCode = 429;
+    this.isTransient = true;
+  }
+}
+
+export class QuotaExceededError extends BridgeError {
+  constructor(
+    message: string,
+    public readonly scope: "user" | "chat",
+  ) {
+    super(message);
+    this.name = "QuotaExceededError";
+    this.statusCode = 429;
+  }
+}
+
 // Configuration errors
 export class ConfigError extends AppError {
   constructor(message: string, originalError?: Error) {
@@ -112,6 +163,14 @@ export class ConfigError extends AppError {
   }
 }
 
+// Storage errors
+export class StorageError extends AppError {
+  constructor(message: string, originalError?: Error) {
+    super(message, "STORAGE_ERROR", 500, false, originalError);
+    this.name = "StorageError";
+  }
+}
+
 // Validation errors
 export class ValidationError extends AppError {
   constructor(
@@ -167,6 +226,18 @@ export function getUserErrorMessage(error: Error): string {
     return `Validation error: ${error.message}`;
   }
 
+  if (error instanceof AttachmentError) {
+    return error.message;
+  }
+
+  if (error instanceof QueueFullError || error instanceof ModelBusyError) {
+    return error.message;
+  }
+
+  if (error instanceof RateLimitError || error instanceof QuotaExceededError) {
+    return error.message;
+  }
+
   if (error instanceof ConfigError) {
     return "Configuration error. Please check your settings.";
   }
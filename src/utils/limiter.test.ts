@@ -0,0 +1,72 @@
+import { ModelBusyError } from "./errors";
+import { ConcurrencyLimiter } from "./limiter";
+
+function createLimiter(maxQueue: number = 1): ConcurrencyLimiter {
+  return new ConcurrencyLimiter({
+    maxConcurrent: 1,
+    maxQueue,
+    queueTimeoutMs: 1000,
+  });
+}
+
+describe("ConcurrencyLimiter", () => {
+  it("hands a released slot to the next waiter", async () => {
+    const limiter = createLimiter();
+    const release = await limiter.acquire();
+
+    const waiting = limiter.acquire();
+    expect(limiter.getStats()).toMatchObject({ active: 1, queued: 1 });
+
+    release();
+    const releaseNext = await waiting;
+    expect(limiter.getStats()).toMatchObject({ active: 1, queued: 0 });
+
+    releaseNext();
+    expect(limiter.getStats().active).toBe(0);
+  });
+
+  it("ignores repeated releases", async () => {
+    const limiter = createLimiter();
+    const release = await limiter.acquire();
+
+    release();
+    release();
+
+    expect(limiter.getStats().active).toBe(0);
+  });
+
+  it("rejects calls when the queue is full", async () => {
+    const limiter = createLimiter(0);
+    await limiter.acquire();
+
+    await expect(limiter.acquire()).rejects.toBeInstanceOf(ModelBusyError);
+    expect(limiter.getStats().rejected).toBe(1);
+  });
+
+  it("gives up waiting after the queue timeout", async () => {
+    jest.useFakeTimers();
+    try {
+      const limiter = createLimiter();
+      await limiter.acquire();
+
+      const waiting = limiter.acquire();
+      jest.advanceTimersByTime(1000);
+
+      await expect(waiting).rejects.toBeInstanceOf(ModelBusyError);
+      expect(limiter.getStats()).toMatchObject({ queued: 0, timedOut: 1 });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("releases the slot when a run fails", async () => {
+    const limiter = createLimiter();
+
+    await expect(
+      limiter.run(async () => {
+        throw new Error("Failed");
+      }),
+    ).rejects.toThrow("Failed");
+    expect(limiter.getStats().active).toBe(0);
+  });
+});
@@ -0,0 +1,165 @@
+import { getLogger } from "./logger";
+import { ModelBusyError } from "./errors";
+
+const logger = getLogger();
+
+/**
+ * Concurrency limiter configuration
+ */
+export interface LimiterConfig {
+  maxConcurrent: number; // Calls running at once
+  maxQueue: number; // Calls waiting for a slot
+  queueTimeoutMs: number; // Longest a call waits for a slot
+}
+
+/**
+ * Concurrency limiter statistics
+ */
+export interface LimiterStats {
+  active: number;
+  queued: number;
+  maxConcurrent: number;
+  maxQueue: number;
+  averageWaitMs: number; // Over all calls that got a slot
+  oldestWaitMs: number; // Wait of the longest queued call
+  rejected: number; // Turned away because the queue was full
+  timedOut: number; // Gave up waiting in the queue
+}
+
+/**
+ * Call waiting for a slot
+ */
+interface Waiter {
+  enqueuedAt: number;
+  grant: () => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Limits how many calls run at once, with a bounded FIFO wait queue
+ */
+export class ConcurrencyLimiter {
+  private active: number = 0;
+  private waiters: Waiter[] = [];
+  private acquired: number = 0;
+  private totalWaitMs: number = 0;
+  private rejected: number = 0;
+  private timedOut: number = 0;
+
+  constructor(private config: LimiterConfig) {
+    logger.info("Concurrency limiter initialized", { ...config });
+  }
+
+  /**
+   * Wait for a slot and return the function that releases it
+   *
+   * Fails with a ModelBusyError when the queue is full or the wait times out.
+   * The release function may safely be called more than once.
+   */
+  async acquire(): Promise<() => void> {
+    const enqueuedAt = Date.now();
+
+    if (this.active < this.config.maxConcurrent) {
+      this.active++;
+      this.recordWait(0);
+      return this.createRelease();
+    }
+
+    if (this.waiters.length >= this.config.maxQueue) {
+      this.rejected++;
+      logger.warn("Model call rejected, queue is full", {
+        active: this.active,
+        queued: this.waiters.length,
+      });
+      throw new ModelBusyError(
+        "I'm handling too many requests right now. Please try again in a minute.",
+      );
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const waiter: Waiter = {
+        enqueuedAt,
+        grant: () => {
+          clearTimeout(waiter.timer);
+          resolve();
+        },
+        timer: setTimeout(() => {
+          this.waiters = this.waiters.filter((entry) => entry !== waiter);
+          this.timedOut++;
+          logger.warn("Model call timed out waiting for a slot", {
+            waitedMs: Date.now() - enqueuedAt,
+          });
+          reject(
+            new ModelBusyError(
+              "I'm still busy with other requests. Please try again in a minute.",
+            ),
+          );
+        }, this.config.queueTimeoutMs),
+      };
+      this.waiters.push(waiter);
+    });
+
+    // The slot was handed over by the releasing call
+    this.recordWait(Date.now() - enqueuedAt);
+    return this.createRelease();
+  }
+
+  /**
+   * Run a function within a slot
+   */
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    const release = await this.acquire();
+
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Get queue depth and wait time statistics
+   */
+  getStats(): LimiterStats {
+    const oldest = this.waiters[0];
+
+    return {
+      active: this.active,
+      queued: this.waiters.length,
+      maxConcurrent: this.config.maxConcurrent,
+      maxQueue: this.config.maxQueue,
+      averageWaitMs:
+        this.acquired > 0 ? Math.round(this.totalWaitMs / this.acquired) : 0,
+      oldestWaitMs: oldest ? Date.now() - oldest.enqueuedAt : 0,
+      rejected: this.rejected,
+      timedOut: this.timedOut,
+    };
+  }
+
+  private recordWait(waitMs: number): void {
+    this.acquired++;
+    this.totalWaitMs += waitMs;
+  }
+
+  /**
+   * Create a release function that hands the slot to the next waiter
+   */
+  private createRelease(): () => void {
+    let released = false;
+
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+
+      const next = this.waiters.shift();
+      if (next) {
+        // Keep the slot active and pass it on
+        next.grant();
+      } else {
+        this.active--;
+      }
+    };
+  }
+}
@@ -1,4 +1,5 @@
 import winston from "winston";
+import { trace } from "@opentelemetry/api";
 
 /**
  * Logger configuration type
@@ -69,7 +70,19 @@ export function initLogger(config: LoggingConfig): void {
 
 /**
  * Create a child logger with additional context
+ *
+ * Inside a recorded span the trace and span IDs are added, so log lines can
+ * be matched to their trace.
  */
 export function createChildLogger(meta: Record<string, any>): winston.Logger {
+  const spanContext = trace.getActiveSpan()?.spanContext();
+  if (spanContext && trace.isSpanContextValid(spanContext)) {
+    return getLogger().child({
+      ...meta,
+      traceId: spanContext.traceId,
+      spanId: spanContext.spanId,
+    });
+  }
+
   return getLogger().child(meta);
 }
@@ -0,0 +1,85 @@
+import { StreamProcessor } from "../bridge/processor";
+import { MoltbotConnectionError } from "./errors";
+import { metrics, metricsRegistry } from "./metrics";
+import { retry } from "./retry";
+import type { MoltbotStreamResponse } from "../moltbot/types";
+
+/**
+ * Get the value of a metric sample by name suffix and labels
+ */
+async function getSample(
+  metric: { get: () => Promise<{ values: any[] }> },
+  labels: Record<string, string>,
+  suffix: string = "",
+): Promise<number | undefined> {
+  const { values } = await metric.get();
+  return values.find(
+    (sample) =>
+      (sample.metricName || "").endsWith(suffix) &&
+      Object.entries(labels).every(
+        ([name, value]) => sample.labels[name] === value,
+      ),
+  )?.value;
+}
+
+describe("metrics", () => {
+  beforeEach(() => {
+    metricsRegistry.resetMetrics();
+  });
+
+  it("serves every metric in Prometheus text format", async () => {
+    metrics.larkEventsReceived.inc({ message_type: "text" });
+
+    const text = await metricsRegistry.metrics();
+
+    expect(metricsRegistry.contentType).toMatch(/^text\/plain/);
+    expect(text).toContain("# TYPE moltbot_lark_events_received_total counter");
+    expect(text).toContain(
+      'moltbot_lark_events_received_total{message_type="text"} 1',
+    );
+    expect(text).toContain("moltbot_process_cpu_seconds_total");
+  });
+
+  it("times streamed answers", async () => {
+    const stream: MoltbotStreamResponse = {
+      parts: (async function* () {
+        yield { type: "text" as const, text: "hello" };
+      })(),
+      text: Promise.resolve("hello"),
+      finishReason: Promise.resolve("stop"),
+      usage: Promise.resolve(undefined),
+    };
+
+    await new StreamProcessor("oc_1", async () => undefined).process(stream);
+
+    await expect(
+      getSample(metrics.streamFirstTokenSeconds, {}, "_count"),
+    ).resolves.toBe(1);
+    await expect(
+      getSample(
+        metrics.streamDurationSeconds,
+        { outcome: "completed" },
+        "_count",
+      ),
+    ).resolves.toBe(1);
+  });
+
+  it("counts retries and exhausted operations", async () => {
+    await expect(
+      retry(
+        async () => {
+          throw new MoltbotConnectionError("Down");
+        },
+        { maxAttempts: 2, initialDelay: 1 },
+        "test.operation",
+      ),
+    ).rejects.toThrow();
+
+    await expect(
+      getSample(metrics.retries, { operation: "test.operation" }),
+    ).resolves.toBe(1);
+    await expect(
+      getSample(metrics.retriesExhausted, { operation: "test.operation" }),
+    ).resolves.toBe(1);
+  });
+});
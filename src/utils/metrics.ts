@@ -0,0 +1,86 @@
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+  collectDefaultMetrics,
+} from "prom-client";
+
+// Prefix of all metric names
+const PREFIX = "moltbot_";
+
+// Buckets in seconds, from fast first tokens to long answers
+const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2, 5, 10, 20, 30, 60, 120];
+
+/**
+ * Registry of all application metrics, served in Prometheus text format
+ */
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry, prefix: PREFIX });
+
+/**
+ * Application metrics
+ */
+export const metrics = {
+  larkEventsReceived: new Counter({
+    name: `${PREFIX}lark_events_received_total`,
+    help: "Lark message events received, after deduplication",
+    labelNames: ["message_type"],
+    registers: [metricsRegistry],
+  }),
+  larkEventsProcessed: new Counter({
+    name: `${PREFIX}lark_events_processed_total`,
+    help: "Lark message events handled to the end",
+    labelNames: ["message_type", "outcome"],
+    registers: [metricsRegistry],
+  }),
+  messagesSkipped: new Counter({
+    name: `${PREFIX}messages_skipped_total`,
+    help: "Messages ignored by the message filter",
+    labelNames: ["message_type", "chat_type"],
+    registers: [metricsRegistry],
+  }),
+  streamFirstTokenSeconds: new Histogram({
+    name: `${PREFIX}stream_first_token_seconds`,
+    help: "Time from the start of a streamed answer to its first chunk",
+    buckets: LATENCY_BUCKETS,
+    registers: [metricsRegistry],
+  }),
+  streamDurationSeconds: new Histogram({
+    name: `${PREFIX}stream_duration_seconds`,
+    help: "Total time to stream an answer to Lark",
+    labelNames: ["outcome"],
+    buckets: LATENCY_BUCKETS,
+    registers: [metricsRegistry],
+  }),
+  larkSendFailures: new Counter({
+    name: `${PREFIX}lark_send_failures_total`,
+    help: "Failed Lark API calls that send or update messages",
+    labelNames: ["operation"],
+    registers: [metricsRegistry],
+  }),
+  retries: new Counter({
+    name: `${PREFIX}retries_total`,
+    help: "Retried attempts of operations",
+    labelNames: ["operation"],
+    registers: [metricsRegistry],
+  }),
+  retriesExhausted: new Counter({
+    name: `${PREFIX}retries_exhausted_total`,
+    help: "Operations that failed on every attempt",
+    labelNames: ["operation"],
+    registers: [metricsRegistry],
+  }),
+  activeConversations: new Gauge({
+    name: `${PREFIX}active_conversations`,
+    help: "Conversations held in context",
+    registers: [metricsRegistry],
+  }),
+  tokens: new Counter({
+    name: `${PREFIX}tokens_total`,
+    help: "Model tokens used by answers",
+    labelNames: ["model", "type"],
+    registers: [metricsRegistry],
+  }),
+};
@@ -1,5 +1,7 @@
 import { getLogger } from "./logger";
 import { isTransientError, RetryExhaustedError } from "./errors";
+import { metrics } from "./metrics";
+import { withSpan } from "./tracing";
 
 const logger = getLogger();
 
@@ -64,7 +66,12 @@ export async function retry<T>(
 
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
     try {
-      return await fn();
+      // Each attempt gets its own span so slow retries show up in the trace
+      return await withSpan(
+        "retry.attempt",
+        { "retry.operation": context || "unknown", "retry.attempt": attempt },
+        fn,
+      );
     } catch (error) {
       lastError = error as Error;
 
@@ -79,6 +86,7 @@ export async function retry<T>(
         });
 
         if (attempt >= maxAttempts) {
+          metrics.retriesExhausted.inc({ operation: context || "unknown" });
           throw new RetryExhaustedError(
             `Operation failed after ${maxAttempts} attempts`,
             maxAttempts,
@@ -102,6 +110,7 @@ export async function retry<T>(
         },
       );
 
+      metrics.retries.inc({ operation: context || "unknown" });
       await sleep(delay);
     }
   }
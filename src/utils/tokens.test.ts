@@ -0,0 +1,42 @@
+import {
+  estimateMessageTokens,
+  estimateTokens,
+  getContextWindow,
+  getInputTokenBudget,
+} from "./tokens";
+
+describe("token estimates", () => {
+  it("counts about four Latin characters or one CJK character per token", () => {
+    expect(estimateTokens("abcdefgh")).toBe(2);
+    expect(estimateTokens("你好世界")).toBe(4);
+    expect(estimateTokens("")).toBe(0);
+  });
+
+  it("adds the cost of images and message overhead", () => {
+    const text = estimateMessageTokens({ role: "user", content: "abcd" });
+    const withImage = estimateMessageTokens({
+      role: "user",
+      content: [
+        { type: "text", text: "abcd" },
+        { type: "image", image: "base64" },
+      ],
+    });
+
+    expect(text).toBeGreaterThan(1);
+    expect(withImage - text).toBeGreaterThan(500);
+  });
+});
+
+describe("token budgets", () => {
+  it("prefers an explicit context window over known models", () => {
+    expect(getContextWindow("gpt-4o-mini")).toBe(128000);
+    expect(getContextWindow("gpt-4o-mini", 4096)).toBe(4096);
+    expect(getContextWindow("unknown-model")).toBe(8192);
+  });
+
+  it("reserves the output tokens", () => {
+    expect(getInputTokenBudget("unknown-model")).toBe(8192 - 1024);
+    expect(getInputTokenBudget("unknown-model", 4096, 1000)).toBe(3096);
+    expect(getInputTokenBudget("unknown-model", 1000, 2000)).toBe(0);
+  });
+});
@@ -0,0 +1,93 @@
+import { getMessageText, countImages } from "../moltbot/content";
+import type { MoltbotMessage } from "../moltbot/types";
+
+// Context window used for models not listed below
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Output tokens reserved when no maxTokens is configured
+const DEFAULT_OUTPUT_RESERVE = 1024;
+
+// Tokens added per message for role and formatting
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Rough cost of one image input (a high-detail 512px tile grid)
+const IMAGE_TOKENS = 765;
+
+// Known context windows by model name prefix, most specific first
+const MODEL_CONTEXT_WINDOWS: Array<[string, number]> = [
+  ["gpt-4o", 128000],
+  ["gpt-4.1", 1000000],
+  ["gpt-4-turbo", 128000],
+  ["gpt-4-32k", 32768],
+  ["gpt-4", 8192],
+  ["gpt-3.5-turbo", 16385],
+  ["o1", 200000],
+  ["o3", 200000],
+  ["claude", 200000],
+  ["deepseek", 64000],
+  ["qwen", 32768],
+  ["glm", 128000],
+  ["moonshot-v1-8k", 8192],
+  ["moonshot-v1-32k", 32768],
+  ["moonshot-v1-128k", 128000],
+];
+
+// CJK characters usually take about one token each
+const CJK_PATTERN = /[぀-ヿ㐀-䶿一-鿿가-힯]/g;
+
+/**
+ * Estimate the number of tokens in a text
+ *
+ * This is a heuristic (about four characters per token for Latin text, one
+ * per CJK character), good enough for budgeting but not for billing.
+ */
+export function estimateTokens(text: string): number {
+  const cjkCount = (text.match(CJK_PATTERN) || []).length;
+  const otherCount = text.length - cjkCount;
+
+  return cjkCount + Math.ceil(otherCount / 4);
+}
+
+/**
+ * Estimate the number of tokens a message takes in the prompt
+ */
+export function estimateMessageTokens(message: MoltbotMessage): number {
+  return (
+    estimateTokens(getMessageText(message.content, "")) +
+    countImages(message.content) * IMAGE_TOKENS +
+    MESSAGE_OVERHEAD_TOKENS
+  );
+}
+
+/**
+ * Get the context window of a model, preferring an explicit value
+ */
+export function getContextWindow(
+  modelName: string,
+  contextWindow?: number,
+): number {
+  if (contextWindow) {
+    return contextWindow;
+  }
+
+  const normalized = modelName.toLowerCase();
+  const match = MODEL_CONTEXT_WINDOWS.find(([prefix]) =>
+    normalized.startsWith(prefix),
+  );
+
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Get the number of prompt tokens available once output is reserved
+ */
+export function getInputTokenBudget(
+  modelName: string,
+  contextWindow?: number,
+  maxTokens?: number,
+): number {
+  const window = getContextWindow(modelName, contextWindow);
+  const reserve = maxTokens ?? DEFAULT_OUTPUT_RESERVE;
+
+  return Math.max(window - reserve, 0);
+}
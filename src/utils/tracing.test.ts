@@ -0,0 +1,65 @@
+import { SpanStatusCode, trace } from "@opentelemetry/api";
+import {
+  InMemorySpanExporter,
+  NodeTracerProvider,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-node";
+import { withSpan } from "./tracing";
+
+describe("withSpan", () => {
+  const exporter = new InMemorySpanExporter();
+  const provider = new NodeTracerProvider({
+    spanProcessors: [new SimpleSpanProcessor(exporter)],
+  });
+
+  beforeAll(() => {
+    provider.register();
+  });
+
+  afterEach(() => {
+    exporter.reset();
+  });
+
+  afterAll(async () => {
+    await provider.shutdown();
+    trace.disable();
+  });
+
+  it("makes spans started across awaits its children", async () => {
+    const result = await withSpan("parent", { "chat.id": "oc_1" }, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return withSpan("child", {}, async () => "done");
+    });
+
+    const spans = exporter.getFinishedSpans();
+    const parent = spans.find((span) => span.name === "parent")!;
+    const child = spans.find((span) => span.name === "child")!;
+
+    expect(result).toBe("done");
+    expect(parent.attributes).toEqual({ "chat.id": "oc_1" });
+    expect(child.parentSpanContext?.spanId).toBe(parent.spanContext().spanId);
+    expect(child.spanContext().traceId).toBe(parent.spanContext().traceId);
+  });
+
+  it("marks the span failed when the function rejects", async () => {
+    await expect(
+      withSpan("failing", {}, async () => {
+        throw new Error("Failed");
+      }),
+    ).rejects.toThrow("Failed");
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.status).toEqual({
+      code: SpanStatusCode.ERROR,
+      message: "Failed",
+    });
+    expect(span.events.map((event) => event.name)).toEqual(["exception"]);
+  });
+
+  it("ends the span of a synchronous function", () => {
+    expect(withSpan("sync", {}, () => 42)).toBe(42);
+    expect(exporter.getFinishedSpans().map((span) => span.name)).toEqual([
+      "sync",
+    ]);
+  });
+});
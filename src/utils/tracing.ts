@@ -0,0 +1,141 @@
+import { SpanStatusCode, trace } from "@opentelemetry/api";
+import type { Attributes, Span } from "@opentelemetry/api";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import {
+  BatchSpanProcessor,
+  NodeTracerProvider,
+  ParentBasedSampler,
+  TraceIdRatioBasedSampler,
+} from "@opentelemetry/sdk-trace-node";
+import { ATTR_SERVICE_NAME } from "@opentelemetry/semantic-conventions";
+import { getLogger } from "./logger";
+
+// Name of the tracer all spans are created with
+const TRACER_NAME = "moltbot-with-lark";
+
+/**
+ * Tracing configuration
+ */
+export interface TracingConfig {
+  enabled: boolean;
+  endpoint?: string; // OTLP/HTTP traces URL, OTEL_EXPORTER_OTLP_* env vars otherwise
+  headers: Record<string, string>;
+  serviceName: string;
+  sampleRatio: number; // Share of new traces that are recorded
+}
+
+// Provider of the running application, when tracing is enabled
+let provider: NodeTracerProvider | null = null;
+
+/**
+ * Start exporting traces over OTLP
+ *
+ * Without this, spans are created by the no-op tracer and cost nothing.
+ */
+export function initTracing(config: TracingConfig): void {
+  if (!config.enabled || provider) {
+    return;
+  }
+
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      [ATTR_SERVICE_NAME]: config.serviceName,
+    }),
+    sampler: new ParentBasedSampler({
+      root: new TraceIdRatioBasedSampler(config.sampleRatio),
+    }),
+    spanProcessors: [
+      new BatchSpanProcessor(
+        new OTLPTraceExporter({
+          url: config.endpoint,
+          headers: config.headers,
+        }),
+      ),
+    ],
+  });
+  provider.register();
+
+  getLogger().info("Tracing initialized", {
+    endpoint: config.endpoint,
+    serviceName: config.serviceName,
+    sampleRatio: config.sampleRatio,
+  });
+}
+
+/**
+ * Flush pending spans and stop exporting
+ */
+export async function shutdownTracing(): Promise<void> {
+  if (!provider) {
+    return;
+  }
+
+  await provider.shutdown();
+  provider = null;
+}
+
+/**
+ * Start a span that is ended by the caller
+ *
+ * Used for work that outlives the current call, such as a stream.
+ */
+export function startSpan(name: string, attributes?: Attributes): Span {
+  return trace.getTracer(TRACER_NAME).startSpan(name, { attributes });
+}
+
+/**
+ * End a span, marking it failed when an error is given
+ */
+export function endSpan(span: Span, error?: unknown): void {
+  if (error !== undefined) {
+    span.recordException(
+      error instanceof Error ? error : new Error(String(error)),
+    );
+    span.setStatus({
+      code: SpanStatusCode.ERROR,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+  span.end();
+}
+
+/**
+ * Run a function inside a new active span
+ *
+ * Spans started while the function runs, including after awaits, become
+ * its children. The span fails when the function throws or rejects.
+ */
+export function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: Span) => T,
+): T {
+  return trace
+    .getTracer(TRACER_NAME)
+    .startActiveSpan(name, { attributes }, (span) => {
+      let result: T;
+      try {
+        result = fn(span);
+      } catch (error) {
+        endSpan(span, error);
+        throw error;
+      }
+
+      if (result instanceof Promise) {
+        return result.then(
+          (value) => {
+            endSpan(span);
+            return value;
+          },
+          (error) => {
+            endSpan(span, error);
+            throw error;
+          },
+        ) as T;
+      }
+
+      endSpan(span);
+      return result;
+    });
+}